@@ -10,4 +10,5 @@ export enum AssetType {
     Texture = "Texture",
     Mesh = "Mesh",
     Material = "Material",
+    Model = "Model",
 }
\ No newline at end of file
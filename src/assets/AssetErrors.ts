@@ -0,0 +1,64 @@
+/**
+ * 依赖加载失败
+ * - chain 从当前 Asset 指向最终失败的 Asset（id 列表）
+ * - cause 为最终失败 Asset 的原始错误
+ */
+export class AssetDependencyError extends Error {
+    readonly chain: readonly string[];
+    readonly cause?: Error;
+
+    constructor(chain: readonly string[], cause?: Error) {
+        super(`Dependency failed: ${chain.join(' -> ')}${cause ? `: ${cause.message}` : ''}`);
+        this.name = 'AssetDependencyError';
+        this.chain = chain;
+        this.cause = cause;
+    }
+}
+
+/**
+ * 依赖图中存在环
+ * - cycle 首尾为同一个 Asset（id 列表）
+ */
+export class AssetCycleError extends Error {
+    readonly cycle: readonly string[];
+
+    constructor(cycle: readonly string[]) {
+        super(`Asset dependency cycle: ${cycle.join(' -> ')}`);
+        this.name = 'AssetCycleError';
+        this.cycle = cycle;
+    }
+}
+
+/**
+ * 读取文件失败
+ * - transient 为 true 时（网络错误、5xx、408、429）可重试
+ */
+export class AssetIOError extends Error {
+    readonly path: string;
+    readonly status?: number;
+    readonly transient: boolean;
+
+    constructor(path: string, message: string, options: { status?: number; transient?: boolean } = {}) {
+        super(`${message}: ${path}`);
+        this.name = 'AssetIOError';
+        this.path = path;
+        this.status = options.status;
+        this.transient = options.transient ?? false;
+    }
+}
+
+/**
+ * WGSL 预处理失败（未知指令、#ifdef 不配对、找不到 #include 的文件等）
+ * - file / line 为原始文件中的位置
+ */
+export class ShaderPreprocessError extends Error {
+    readonly file: string;
+    readonly line: number;
+
+    constructor(file: string, line: number, message: string) {
+        super(`${file}:${line}: ${message}`);
+        this.name = 'ShaderPreprocessError';
+        this.file = file;
+        this.line = line;
+    }
+}
@@ -1,5 +1,61 @@
-// export type ShaderHandle = number;
-export type ShaderHandle = {
-    readonly id: number;
+import { Handle, HandleAllocator, HandleKind } from "./HandleAllocator";
+
+export type { Handle } from "./HandleAllocator";
+export { HandleKind, StaleHandleError, describeHandle } from "./HandleAllocator";
+
+export type ShaderHandle = Handle<HandleKind.Shader>;
+export type TextureHandle = Handle<HandleKind.Texture>;
+export type MeshHandle = Handle<HandleKind.Mesh>;
+export type MaterialHandle = Handle<HandleKind.Material>;
+export type PipelineHandle = Handle<HandleKind.Pipeline>;
+
+// 全局分配器：Asset 侧与 RenderSystem 内部（回退资源等）共用，保证同类 id 不冲突
+const allocators: { [K in HandleKind]: HandleAllocator<K> } = {
+    [HandleKind.Shader]: new HandleAllocator(HandleKind.Shader),
+    [HandleKind.Texture]: new HandleAllocator(HandleKind.Texture),
+    [HandleKind.Mesh]: new HandleAllocator(HandleKind.Mesh),
+    [HandleKind.Material]: new HandleAllocator(HandleKind.Material),
+    [HandleKind.Pipeline]: new HandleAllocator(HandleKind.Pipeline),
 };
-export type TextureHandle = number;
\ No newline at end of file
+
+export function getHandleAllocator<K extends HandleKind>(kind: K): HandleAllocator<K> {
+    return allocators[kind] as HandleAllocator<K>;
+}
+
+/** 句柄是否仍然有效（未被释放） */
+export function isHandleAlive(handle: Handle): boolean {
+    return getHandleAllocator(handle.kind).isAlive(handle);
+}
+
+/**
+ * 释放句柄（持有者不再使用时调用；对应的 GPU 资源应先销毁）
+ * @returns 句柄已过期时返回 false
+ */
+export function freeHandle(handle: Handle): boolean {
+    return getHandleAllocator(handle.kind).free(handle);
+}
+
+/** 分配新的 ShaderHandle（Asset 侧持有，RenderSystem 侧据此注册 GPUShaderModule） */
+export function createShaderHandle(name?: string): ShaderHandle {
+    return allocators[HandleKind.Shader].allocate(name);
+}
+
+/** 分配新的 TextureHandle（Asset 侧持有，RenderSystem 侧据此注册 GPUTexture） */
+export function createTextureHandle(name?: string): TextureHandle {
+    return allocators[HandleKind.Texture].allocate(name);
+}
+
+/** 分配新的 MeshHandle（Asset 侧持有，RenderSystem 侧据此注册 GPUBuffer） */
+export function createMeshHandle(name?: string): MeshHandle {
+    return allocators[HandleKind.Mesh].allocate(name);
+}
+
+/** 分配新的 MaterialHandle（RenderSystem 侧据此缓存材质的 BindGroup） */
+export function createMaterialHandle(name?: string): MaterialHandle {
+    return allocators[HandleKind.Material].allocate(name);
+}
+
+/** 分配新的 PipelineHandle */
+export function createPipelineHandle(name?: string): PipelineHandle {
+    return allocators[HandleKind.Pipeline].allocate(name);
+}
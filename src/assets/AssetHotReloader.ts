@@ -0,0 +1,74 @@
+import { AssetManager } from "./AssetManager";
+import { AssetState } from "./AssetEnums";
+import { IAsset, isSourceFileAsset } from "./asset_types/IAsset";
+import { IFileChangeSource } from "./io/IFileChangeSource";
+import { MemoryFileSource } from "./io/MemoryFileSource";
+import { VirtualFileSystem } from "./io/VirtualFileSystem";
+
+/**
+ * 文件变化 → Asset 重新加载
+ * - 通知带内容时写入覆盖层（挂载在文件所在目录，优先于原挂载点），再重新读取
+ * - 只重新加载已注册且不处于 Unloaded 的 Asset（由多个文件组成的 Asset，任一文件变化都重新加载）
+ * - 重新加载进入 Ready 后由 AssetManager 重新上传；Shader 编译失败时 GPU 侧保留旧模块
+ */
+export class AssetHotReloader {
+    // 目录 → 覆盖层
+    private overlays = new Map<string, MemoryFileSource>();
+    private readonly unsubscribe: () => void;
+
+    constructor(
+        private readonly assetManager: AssetManager,
+        source: IFileChangeSource
+    ) {
+        this.unsubscribe = source.subscribe(change => {
+            this.apply(change.path, change.content).catch(err => {
+                console.error(`Hot reload failed: ${change.path}`, err);
+            });
+        });
+    }
+
+    /**
+     * 应用一次文件变化
+     * @returns 被重新加载的 Asset 数量
+     */
+    async apply(path: string, content?: string | Uint8Array): Promise<number> {
+        const fileSystem = this.assetManager.loadContext.fileSystem;
+        const resolved = fileSystem.resolve(path);
+
+        if (content !== undefined) {
+            const directory = resolved.substring(0, resolved.lastIndexOf('/') + 1);
+            let overlay = this.overlays.get(directory);
+            if (!overlay) {
+                overlay = new MemoryFileSource();
+                fileSystem.mount(directory, overlay);
+                this.overlays.set(directory, overlay);
+            }
+            overlay.set(resolved.substring(directory.length), content);
+        }
+
+        const affected = this.findAssets(fileSystem, resolved);
+        await Promise.all(affected.map(asset => this.assetManager.reload(asset)));
+        return affected.length;
+    }
+
+    /**
+     * 停止监听并移除覆盖层
+     */
+    dispose(): void {
+        this.unsubscribe();
+        const fileSystem = this.assetManager.loadContext.fileSystem;
+        for (const [directory, overlay] of this.overlays) {
+            fileSystem.unmount(directory, overlay);
+        }
+        this.overlays.clear();
+    }
+
+    private findAssets(fileSystem: VirtualFileSystem, path: string): IAsset[] {
+        return Array.from(this.assetManager.getAssets()).filter(asset =>
+            asset.state !== AssetState.Unloaded && (
+                fileSystem.resolve(asset.id) === path ||
+                (isSourceFileAsset(asset) && asset.getSourceFiles().includes(path))
+            )
+        );
+    }
+}
@@ -0,0 +1,51 @@
+import { AssetLoadContext } from "./loaders/IAssetLoader";
+import { AssetLoaderRegistry } from "./loaders/AssetLoaderRegistry";
+import { ShaderLoader } from "./loaders/ShaderLoader";
+import { TextureLoader } from "./loaders/TextureLoader";
+import { ObjLoader } from "./loaders/ObjLoader";
+import { GltfLoader } from "./loaders/GltfLoader";
+import { VirtualFileSystem } from "./io/VirtualFileSystem";
+import { FetchFileSource } from "./io/FetchFileSource";
+import { GlobFileSource, GlobModules } from "./io/GlobFileSource";
+
+/** 内置着色器目录（构建时通过 import.meta.glob 打包） */
+export const SHADER_ROOT = '/src/shaders/';
+
+/** 注册所有内置 Loader（WGSL / 图片 / OBJ / glTF） */
+export function createDefaultLoaderRegistry(): AssetLoaderRegistry {
+    const loaders = new AssetLoaderRegistry();
+    loaders.register(new ShaderLoader());
+    loaders.register(new TextureLoader());
+    loaders.register(new ObjLoader());
+    loaders.register(new GltfLoader());
+    return loaders;
+}
+
+/**
+ * 浏览器环境的默认加载环境
+ * - '/' 挂载 HTTP fetch
+ * - SHADER_ROOT 挂载 import.meta.glob 打包的 .wgsl
+ */
+export function createDefaultLoadContext(): AssetLoadContext {
+    const fileSystem = new VirtualFileSystem();
+    fileSystem.mount('/', new FetchFileSource('/'));
+
+    // @ts-ignore - import.meta.glob 是 Vite 的特殊功能，TypeScript 不识别
+    const shaders = import.meta.glob('/src/shaders/**/*.wgsl', {
+        as: 'raw',
+        eager: false,
+    }) as GlobModules;
+    fileSystem.mount(SHADER_ROOT, new GlobFileSource(shaders, SHADER_ROOT));
+
+    return { fileSystem, loaders: createDefaultLoaderRegistry() };
+}
+
+let defaultContext: AssetLoadContext | null = null;
+
+/** 全局默认加载环境（首次使用时创建；单元测试应自行构造 AssetLoadContext） */
+export function getDefaultLoadContext(): AssetLoadContext {
+    if (!defaultContext) {
+        defaultContext = createDefaultLoadContext();
+    }
+    return defaultContext;
+}
@@ -1,9 +1,109 @@
 // Assets/AssetManager.ts
-import { IAsset } from "./asset_types/IAsset";
+import { AssetStateListener, IAsset, ILoadableAsset, isGPUAsset } from "./asset_types/IAsset";
 import { AssetState } from "./AssetEnums";
+import { AssetCycleError, AssetDependencyError, AssetIOError } from "./AssetErrors";
+import { IGPUResourceFactory } from "../rendering/IGPUResourceFactory";
+import { AssetLoadContext } from "./loaders/IAssetLoader";
+import { getDefaultLoadContext } from "./AssetLoadContext";
+import { LoadProgressListener, LoadProgressTracker } from "./LoadProgress";
+import { AssetBundle } from "./bundle/AssetBundle";
+import { AssetType } from "./AssetEnums";
+import { ShaderAsset } from "./asset_types/ShaderAsset";
+import { TextureAsset } from "./asset_types/TextureAsset";
+import { MeshAsset } from "./asset_types/MeshAsset";
+import { ModelAsset } from "./asset_types/ModelAsset";
+
+/**
+ * 内存预算（字节）
+ * - 超出时按 LRU 回收未被引用的 Asset
+ */
+export interface AssetMemoryBudget {
+    cpuBytes: number;
+    gpuBytes: number;
+}
+
+/**
+ * 每帧 GPU 上传预算
+ * - 每帧至少上传一个 Asset，保证队列总能推进
+ */
+export interface UploadBudget {
+    milliseconds: number;
+    bytes: number;
+}
+
+/**
+ * 加载失败时的重试策略（指数退避）
+ * - 第 n 次重试前等待 min(initialDelayMs * backoffFactor^(n-1), maxDelayMs)
+ */
+export interface RetryPolicy {
+    /** 总尝试次数（含首次），1 表示不重试 */
+    maxAttempts: number;
+    initialDelayMs: number;
+    backoffFactor: number;
+    maxDelayMs: number;
+    /** 是否为可重试的瞬时错误 */
+    isTransient(error: Error | undefined): boolean;
+}
+
+/** Bundle 条目按类型创建的 Asset（以路径加载的类型） */
+const BUNDLE_ASSET_FACTORIES: Partial<Record<AssetType, (path: string) => IAsset>> = {
+    [AssetType.Shader]: path => new ShaderAsset(path),
+    [AssetType.Texture]: path => new TextureAsset(path),
+    [AssetType.Mesh]: path => new MeshAsset(path),
+    [AssetType.Model]: path => new ModelAsset(path),
+};
+
+/** Asset 从 Failed 恢复（重试 / reload 成功，GPU 对象已就绪）时回调 */
+export type AssetRecoveredListener = (asset: IAsset) => void;
+
+interface UploadRequest {
+    asset: IAsset;
+    // 入队顺序，同优先级先进先出
+    order: number;
+}
 
 export class AssetManager {
     private assets = new Map<string, IAsset>();
+    private stateListeners = new Set<AssetStateListener>();
+
+    // 引用计数（acquire / release），被引用的 Asset 及其传递依赖不会被回收
+    private refCounts = new Map<string, number>();
+    // LRU 时钟：值越小越久未使用
+    private lastUsed = new Map<string, number>();
+    private clock = 0;
+
+    // 已创建 GPU 对象的 Asset → 占用字节数
+    private gpuResident = new Map<string, number>();
+    private budget: AssetMemoryBudget = { cpuBytes: Infinity, gpuBytes: Infinity };
+
+    // 已 Ready、等待创建 GPU 对象的 Asset
+    private uploadQueue = new Map<string, UploadRequest>();
+    private uploadOrder = 0;
+    private uploadBudget: UploadBudget = { milliseconds: 4, bytes: 16 * 1024 * 1024 };
+
+    // 重新加载期间 GPU 对象保留旧版本，Ready 后需重新上传
+    private staleGPU = new Set<string>();
+
+    private retryPolicy: RetryPolicy = {
+        maxAttempts: 3,
+        initialDelayMs: 500,
+        backoffFactor: 2,
+        maxDelayMs: 8000,
+        isTransient: error => error instanceof AssetIOError && error.transient,
+    };
+
+    // 曾经 Failed、等待恢复的 Asset
+    private failedAssets = new Set<string>();
+    private recoveredListeners = new Set<AssetRecoveredListener>();
+
+    /**
+     * @param gpuFactory RenderSystem 提供的 GPU 资源工厂（缺省时不上传 GPU）
+     * @param loadContext 文件系统与 Loader 注册表（挂载点 / 自定义 Loader 在此配置）
+     */
+    constructor(
+        private readonly gpuFactory: IGPUResourceFactory | null = null,
+        readonly loadContext: AssetLoadContext = getDefaultLoadContext()
+    ) { }
 
     register<T extends IAsset>(asset: T): T {
         const existing = this.assets.get(asset.id);
@@ -11,6 +111,11 @@ export class AssetManager {
             return existing as T;
         }
         this.assets.set(asset.id, asset);
+        asset.onStateChange(this.forwardStateChange);
+        // 由导入器直接提供数据的 Asset 注册时已是 Ready
+        if (asset.state === AssetState.Ready) {
+            this.enqueueUpload(asset);
+        }
         return asset;
     }
 
@@ -18,53 +123,556 @@ export class AssetManager {
         return this.assets.get(id) as T | undefined;
     }
 
+    /** 所有已注册的 Asset */
+    getAssets(): IterableIterator<IAsset> {
+        return this.assets.values();
+    }
+
     /**
-     * 确保 Asset 进入 Ready 或 Failed
-     * - 不修改 state
-     * - 不假设 asset 一定可 load
+     * 挂载 Bundle 并注册其中的所有 Asset
+     * - 注册的 Asset 为 Unloaded，按需 load 时才从 Bundle 解码（惰性）
+     * - 同 id 已注册时沿用已有实例
+     * @param prefix 挂载点，条目 id 相对于它
+     * @returns 已注册的 Asset
+     */
+    mountBundle(bundle: AssetBundle, prefix = '/'): IAsset[] {
+        this.loadContext.fileSystem.mount(prefix, bundle);
+
+        const assets: IAsset[] = [];
+        for (const entry of bundle.getEntries()) {
+            if (entry.type === null) {
+                continue;
+            }
+            const create = BUNDLE_ASSET_FACTORIES[entry.type];
+            if (!create) {
+                console.warn(`Unsupported bundle asset type ${entry.type}: ${entry.id}`);
+                continue;
+            }
+            const path = this.loadContext.fileSystem.resolve(entry.id, prefix.replace(/\/?$/, '/'));
+            assets.push(this.register(create(path)));
+        }
+        return assets;
+    }
+
+    /**
+     * 读取并挂载 Bundle 文件（一次请求）
+     */
+    async loadBundle(path: string, prefix = '/', signal?: AbortSignal): Promise<IAsset[]> {
+        const bytes = await this.loadContext.fileSystem.readBytes(path, signal);
+        const buffer = bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+            ? bytes.buffer
+            : bytes.slice().buffer;
+        return this.mountBundle(AssetBundle.parse(buffer), prefix);
+    }
+
+    /**
+     * 增加引用计数（未注册时先注册）
+     * @returns 实际受管的 Asset（同 id 已注册时为已有实例）
      */
-    async ensureReady(asset: IAsset): Promise<void> {
-        if (
-            asset.state === AssetState.Ready ||
-            asset.state === AssetState.Failed
-        ) {
+    acquire<T extends IAsset>(asset: T): T {
+        const managed = this.register(asset);
+        this.refCounts.set(managed.id, this.getRefCount(managed) + 1);
+        this.touch(managed);
+        return managed;
+    }
+
+    /**
+     * 减少引用计数
+     * - 归零后不立刻回收，超出预算时按 LRU 回收
+     */
+    release(asset: IAsset): void {
+        const count = this.getRefCount(asset);
+        if (count === 0) {
+            console.warn(`Asset released without being acquired: ${asset.id}`);
             return;
         }
 
-        if (asset.state === AssetState.Loading) {
-            // 等待 asset 自己完成（轮询或事件，暂用简单方式）
-            return this.waitForCompletion(asset);
+        if (count === 1) {
+            this.refCounts.delete(asset.id);
+        } else {
+            this.refCounts.set(asset.id, count - 1);
         }
+        this.touch(asset);
+        this.enforceBudget();
+    }
 
-        // 只有具备 load 能力的 asset 才能被触发
-        const loadable = asset as Partial<{ load(): Promise<void> }>;
-        if (!loadable.load) {
+    getRefCount(asset: IAsset): number {
+        return this.refCounts.get(asset.id) ?? 0;
+    }
+
+    /** 标记最近使用（LRU） */
+    touch(asset: IAsset): void {
+        this.lastUsed.set(asset.id, ++this.clock);
+    }
+
+    /**
+     * 为 Ready 的 Asset 创建 GPU 对象
+     * @returns 是否已常驻 GPU
+     */
+    upload(asset: IAsset): boolean {
+        if (!this.gpuFactory || !isGPUAsset(asset) || asset.state !== AssetState.Ready) {
+            return false;
+        }
+
+        this.touch(asset);
+        if (this.gpuResident.has(asset.id) && !this.staleGPU.has(asset.id)) {
+            return true;
+        }
+        // CPU 数据已被丢弃，需先 unload 再重新加载
+        if (asset.getCPUData() === null) {
+            return false;
+        }
+
+        // 同一 Handle 重新创建时，RenderSystem 侧替换旧对象
+        this.gpuResident.set(asset.id, asset.uploadGPU(this.gpuFactory));
+        this.staleGPU.delete(asset.id);
+        this.notifyRecovered(asset);
+        this.enforceBudget();
+        return true;
+    }
+
+    /** 设置每帧上传预算（未指定的项保持不变） */
+    setUploadBudget(budget: Partial<UploadBudget>): void {
+        this.uploadBudget = { ...this.uploadBudget, ...budget };
+    }
+
+    /** Ready 之后自动入队；也可手动入队（如 Device 重建后） */
+    enqueueUpload(asset: IAsset): void {
+        if (!this.gpuFactory || !isGPUAsset(asset) || this.uploadQueue.has(asset.id)) {
             return;
         }
+        this.uploadQueue.set(asset.id, { asset, order: this.uploadOrder++ });
+    }
 
-        try {
-            await loadable.load();
-        } catch {
-            // error 已由 asset 自己记录
+    get pendingUploadCount(): number {
+        return this.uploadQueue.size;
+    }
+
+    /**
+     * 每帧调用（SceneManager.update 之后、RenderSystem.renderFrame 之前）
+     * - 在预算内把队列中的 Asset 创建为 GPU 对象
+     * - 可见 Asset（及其传递依赖）优先，其余按入队顺序
+     * @param visible 当前帧可见的 Asset
+     */
+    update(visible: Iterable<IAsset> = []): void {
+        if (this.uploadQueue.size === 0) {
+            return;
+        }
+
+        const priority = this.collectClosure(visible);
+        const requests = [...this.uploadQueue.values()].sort((a, b) => {
+            const pa = priority.has(a.asset) ? 0 : 1;
+            const pb = priority.has(b.asset) ? 0 : 1;
+            return pa - pb || a.order - b.order;
+        });
+
+        const start = performance.now();
+        let bytes = 0;
+        let uploaded = 0;
+
+        for (const { asset } of requests) {
+            if (uploaded > 0) {
+                const elapsed = performance.now() - start;
+                if (
+                    elapsed >= this.uploadBudget.milliseconds ||
+                    bytes + asset.getCPUByteSize() > this.uploadBudget.bytes
+                ) {
+                    break;
+                }
+            }
+
+            this.uploadQueue.delete(asset.id);
+            try {
+                if (this.upload(asset)) {
+                    bytes += this.gpuResident.get(asset.id) ?? 0;
+                    uploaded++;
+                }
+            } catch (err) {
+                console.error(`GPU upload failed (${asset.id}):`, err);
+            }
+        }
+    }
+
+    isGPUResident(asset: IAsset): boolean {
+        return this.gpuResident.has(asset.id);
+    }
+
+    /**
+     * 显式卸载：销毁 GPU 对象并回到 Unloaded
+     * - 仍被引用的 Asset 拒绝卸载
+     * @returns 是否已卸载
+     */
+    unload(asset: IAsset): boolean {
+        if (this.getRefCount(asset) > 0) {
+            console.warn(`Cannot unload referenced asset: ${asset.id}`);
+            return false;
+        }
+
+        this.releaseGPU(asset);
+        asset.unload();
+        return asset.state === AssetState.Unloaded;
+    }
+
+    /** 设置内存预算（未指定的项保持不变），立即生效 */
+    setBudget(budget: Partial<AssetMemoryBudget>): void {
+        this.budget = { ...this.budget, ...budget };
+        this.enforceBudget();
+    }
+
+    getMemoryUsage(): AssetMemoryBudget {
+        let cpuBytes = 0;
+        for (const asset of this.assets.values()) {
+            cpuBytes += asset.getCPUByteSize();
+        }
+        let gpuBytes = 0;
+        for (const bytes of this.gpuResident.values()) {
+            gpuBytes += bytes;
+        }
+        return { cpuBytes, gpuBytes };
+    }
+
+    /**
+     * 按 LRU 回收未被引用的 Asset，直到回到预算内
+     * - GPU 超出：销毁 GPU 对象（CPU 数据仍在的，再次 ensureReady / prepare 时重新上传）
+     * - CPU 超出：已上传且允许时丢弃 CPU 数据，否则 unload（下次使用时重新加载）
+     */
+    enforceBudget(): void {
+        const usage = this.getMemoryUsage();
+        if (usage.cpuBytes <= this.budget.cpuBytes && usage.gpuBytes <= this.budget.gpuBytes) {
+            return;
+        }
+
+        const live = this.collectReferenced();
+        const candidates = [...this.assets.values()]
+            .filter(asset => !live.has(asset) && asset.state !== AssetState.Loading)
+            .sort((a, b) => (this.lastUsed.get(a.id) ?? 0) - (this.lastUsed.get(b.id) ?? 0));
+
+        for (const asset of candidates) {
+            if (usage.gpuBytes <= this.budget.gpuBytes) {
+                break;
+            }
+            const bytes = this.gpuResident.get(asset.id);
+            if (bytes !== undefined) {
+                this.releaseGPU(asset);
+                usage.gpuBytes -= bytes;
+                // CPU 数据已丢弃时无法再上传，回到 Unloaded 以便重新加载
+                if (asset.getCPUData() === null) {
+                    asset.unload();
+                }
+            }
         }
+
+        for (const asset of candidates) {
+            if (usage.cpuBytes <= this.budget.cpuBytes) {
+                break;
+            }
+            const before = asset.getCPUByteSize();
+            if (before === 0) {
+                continue;
+            }
+
+            if (!this.gpuResident.has(asset.id)) {
+                asset.unload();
+            } else if (asset.canDiscardCPUData()) {
+                // GPU 对象仍可用，只丢弃 CPU 副本
+                asset.discardCPUData();
+            }
+            usage.cpuBytes -= before - asset.getCPUByteSize();
+        }
+    }
+
+    /** 设置重试策略（未指定的项保持不变） */
+    setRetryPolicy(policy: Partial<RetryPolicy>): void {
+        this.retryPolicy = { ...this.retryPolicy, ...policy };
+    }
+
+    /**
+     * 订阅 Asset 从 Failed 恢复
+     * - 有 GPU 对象的 Asset 在重新上传之后回调，Renderer 据此从 fallback 切回
+     * @returns 取消订阅的函数
+     */
+    onAssetRecovered(listener: AssetRecoveredListener): () => void {
+        this.recoveredListeners.add(listener);
+        return () => {
+            this.recoveredListeners.delete(listener);
+        };
+    }
+
+    /**
+     * 显式重新加载（Failed / Ready → Loading → Ready / Failed）
+     * - 按重试策略重试瞬时错误
+     * - 随后重新解析依赖（新数据可能引用新的子资产）
+     */
+    async reload(asset: IAsset, signal?: AbortSignal): Promise<void> {
+        const managed = this.register(asset);
+        const loadable = managed as Partial<ILoadableAsset>;
+        if (!loadable.reload) {
+            return;
+        }
+
+        await this.loadWithRetry(managed, () => loadable.reload!(this.loadContext, signal), signal);
+        await this.resolveDependencies(managed, [managed], signal);
+    }
+
+    /**
+     * 订阅所有已注册 Asset 的状态变化（加载界面 / RenderLoop 使用）
+     * @returns 取消订阅的函数
+     */
+    onAssetStateChange(listener: AssetStateListener): () => void {
+        this.stateListeners.add(listener);
+        return () => {
+            this.stateListeners.delete(listener);
+        };
+    }
+
+    /**
+     * 确保 Asset 及其传递依赖进入 Ready 或 Failed
+     * - 依赖先于自身加载；load 之后才出现的依赖随后加载
+     * - 进入 Ready 后进入上传队列，由 update 分帧创建 GPU 对象
+     * - 依赖失败（或成环）时，经 markFailed 沿依赖链传播到当前 Asset
+     * - 不假设 asset 一定可 load
+     * @param signal 取消后尚未完成的 Asset 回到 Unloaded
+     */
+    async ensureReady(asset: IAsset, signal?: AbortSignal): Promise<void> {
+        await this.resolve(asset, [], signal);
     }
 
     /**
      * 批量 prepare（Scene warm-up）
+     * @param signal 如 Scene 被移除时取消
+     * @param onProgress 加载进度（结束时再报告一次最终结果）
      */
-    async prepare(assets: Iterable<IAsset>): Promise<void> {
-        await Promise.all(
-            Array.from(assets).map(asset => this.ensureReady(asset))
-        );
+    async prepare(assets: Iterable<IAsset>, signal?: AbortSignal, onProgress?: LoadProgressListener): Promise<void> {
+        const roots = Array.from(assets);
+        const tracker = onProgress ? this.trackProgress(roots, onProgress) : null;
+        try {
+            await Promise.all(roots.map(asset => this.ensureReady(asset, signal)));
+        } finally {
+            tracker?.stop();
+        }
     }
 
     /**
-     * 等待 Loading → Ready / Failed
-     *（简单实现，后续可事件化）
+     * 跟踪一组 Asset（含传递依赖）的加载进度，用完需调用 stop
      */
-    private async waitForCompletion(asset: IAsset): Promise<void> {
-        while (asset.state === AssetState.Loading) {
-            await Promise.resolve();
+    trackProgress(roots: Iterable<IAsset>, listener: LoadProgressListener): LoadProgressTracker {
+        return new LoadProgressTracker(roots, this, this.loadContext.fileSystem, listener);
+    }
+
+    /** 被引用的 Asset 及其传递依赖 */
+    private collectReferenced(): Set<IAsset> {
+        const roots: IAsset[] = [];
+        for (const id of this.refCounts.keys()) {
+            const asset = this.assets.get(id);
+            if (asset) {
+                roots.push(asset);
+            }
+        }
+        return this.collectClosure(roots);
+    }
+
+    private collectClosure(roots: Iterable<IAsset>): Set<IAsset> {
+        const visited = new Set<IAsset>();
+        const stack = [...roots];
+        while (stack.length > 0) {
+            const asset = stack.pop()!;
+            if (visited.has(asset)) {
+                continue;
+            }
+            visited.add(asset);
+            stack.push(...asset.getDependencies());
+        }
+        return visited;
+    }
+
+    private releaseGPU(asset: IAsset): void {
+        if (!this.gpuFactory || !isGPUAsset(asset) || !this.gpuResident.has(asset.id)) {
+            return;
         }
+        asset.releaseGPU(this.gpuFactory);
+        this.gpuResident.delete(asset.id);
+        this.staleGPU.delete(asset.id);
     }
+
+    /**
+     * 深度优先解析依赖
+     * @param path 从根到当前 Asset 的路径（用于环检测）
+     */
+    private async resolve(asset: IAsset, path: readonly IAsset[], signal?: AbortSignal): Promise<void> {
+        // 依赖中发现的 Asset 也纳入管理
+        if (!this.assets.has(asset.id)) {
+            this.register(asset);
+        }
+        const current = [...path, asset];
+
+        // 预先声明的依赖
+        await this.resolveDependencies(asset, current, signal);
+
+        await this.loadSelf(asset, signal);
+
+        // load 之后才出现的依赖（如 glTF / OBJ 引用的材质与贴图）
+        await this.resolveDependencies(asset, current, signal);
+
+        // 已 Ready 但 GPU 对象被预算回收（CPU 数据仍在）时重新入队
+        if (asset.state === AssetState.Ready && !this.gpuResident.has(asset.id)) {
+            this.enqueueUpload(asset);
+        }
+    }
+
+    private async resolveDependencies(asset: IAsset, path: readonly IAsset[], signal?: AbortSignal): Promise<void> {
+        if (asset.state === AssetState.Failed || signal?.aborted) {
+            return;
+        }
+
+        const dependencies = asset.getDependencies();
+        for (const dependency of dependencies) {
+            const index = path.indexOf(dependency);
+            if (index >= 0) {
+                const cycle = [...path.slice(index), dependency].map(a => a.id);
+                asset.markFailed(new AssetCycleError(cycle));
+                return;
+            }
+        }
+
+        await Promise.all(dependencies.map(dependency => this.resolve(dependency, path, signal)));
+
+        // 软依赖（如材质的贴图）失败时由使用方回退，不使自身失败
+        const failed = dependencies.find(dependency =>
+            dependency.state === AssetState.Failed && !asset.isSoftDependency(dependency));
+        if (failed) {
+            asset.markFailed(this.createDependencyError(asset, failed));
+        }
+    }
+
+    private createDependencyError(asset: IAsset, failed: IAsset): AssetDependencyError {
+        const cause = failed.error;
+        if (cause instanceof AssetDependencyError) {
+            return new AssetDependencyError([asset.id, ...cause.chain], cause.cause);
+        }
+        return new AssetDependencyError([asset.id, failed.id], cause);
+    }
+
+    /**
+     * 推进单个 Asset 到 Ready 或 Failed（不处理依赖）
+     * - 不修改 state
+     * - 他人发起的加载被取消时，由自己重新发起
+     */
+    private async loadSelf(asset: IAsset, signal?: AbortSignal): Promise<void> {
+        while (!signal?.aborted) {
+            if (
+                asset.state === AssetState.Ready ||
+                asset.state === AssetState.Failed
+            ) {
+                return;
+            }
+
+            if (asset.state === AssetState.Loading) {
+                // 等待 asset 自己完成（事件驱动，不轮询）
+                await asset.whenSettled();
+                continue;
+            }
+
+            // 只有具备 load 能力的 asset 才能被触发
+            const loadable = asset as Partial<ILoadableAsset>;
+            if (!loadable.load || !loadable.reload) {
+                return;
+            }
+
+            await this.loadWithRetry(asset, () => loadable.load!(this.loadContext, signal), signal);
+            return;
+        }
+    }
+
+    /**
+     * 执行一次加载，瞬时错误按重试策略以 reload 重试
+     */
+    private async loadWithRetry(asset: IAsset, attempt: () => Promise<void>, signal?: AbortSignal): Promise<void> {
+        const policy = this.retryPolicy;
+        const loadable = asset as ILoadableAsset;
+
+        for (let i = 1; ; i++) {
+            try {
+                await attempt();
+            } catch {
+                // error 已由 asset 自己记录
+            }
+
+            if (
+                asset.state !== AssetState.Failed ||
+                i >= policy.maxAttempts ||
+                signal?.aborted ||
+                !policy.isTransient(asset.error)
+            ) {
+                return;
+            }
+
+            const delay = Math.min(
+                policy.initialDelayMs * Math.pow(policy.backoffFactor, i - 1),
+                policy.maxDelayMs
+            );
+            console.warn(`Retrying asset ${asset.id} in ${delay}ms (attempt ${i + 1}/${policy.maxAttempts}):`, asset.error);
+            if (!(await wait(delay, signal))) {
+                return;
+            }
+            attempt = () => loadable.reload(this.loadContext, signal);
+        }
+    }
+
+    private notifyRecovered(asset: IAsset): void {
+        if (!this.failedAssets.delete(asset.id)) {
+            return;
+        }
+        for (const listener of [...this.recoveredListeners]) {
+            try {
+                listener(asset);
+            } catch (err) {
+                console.error(`Asset recovered listener failed (${asset.id}):`, err);
+            }
+        }
+    }
+
+    private forwardStateChange: AssetStateListener = (asset, state, previous) => {
+        if (state === AssetState.Failed) {
+            this.failedAssets.add(asset.id);
+        } else if (state === AssetState.Loading && this.gpuResident.has(asset.id)) {
+            // reload：新数据就绪前继续使用旧的 GPU 对象
+            this.staleGPU.add(asset.id);
+        } else if (state === AssetState.Ready) {
+            if (this.gpuFactory && isGPUAsset(asset)) {
+                this.enqueueUpload(asset);
+            } else {
+                this.notifyRecovered(asset);
+            }
+        }
+
+        for (const listener of [...this.stateListeners]) {
+            try {
+                listener(asset, state, previous);
+            } catch (err) {
+                console.error(`Asset state listener failed (${asset.id}):`, err);
+            }
+        }
+    };
+}
+
+/**
+ * 等待 ms 毫秒
+ * @returns 被取消时为 false
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve(false);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
 }
@@ -0,0 +1,107 @@
+/**
+ * 句柄所指资源的类别
+ */
+export enum HandleKind {
+    Shader = 'shader',
+    Texture = 'texture',
+    Mesh = 'mesh',
+    Material = 'material',
+    Pipeline = 'pipeline',
+}
+
+/**
+ * 分代句柄
+ * - id 为槽位下标，释放后可被复用
+ * - generation 在每次释放时递增，旧句柄因此可被识别为过期
+ */
+export interface Handle<K extends HandleKind = HandleKind> {
+    readonly kind: K;
+    readonly id: number;
+    readonly generation: number;
+    /** 调试名（GPU 对象 label / 日志） */
+    readonly name?: string;
+}
+
+/**
+ * 使用已释放（过期）的句柄
+ */
+export class StaleHandleError extends Error {
+    readonly handle: Handle;
+
+    constructor(handle: Handle) {
+        super(`Stale handle: ${describeHandle(handle)}`);
+        this.name = 'StaleHandleError';
+        this.handle = handle;
+    }
+}
+
+/**
+ * 句柄的可读描述，如 `shader#3.1(basic.vert.wgsl)`
+ */
+export function describeHandle(handle: Handle): string {
+    const name = handle.name ? `(${handle.name})` : '';
+    return `${handle.kind}#${handle.id}.${handle.generation}${name}`;
+}
+
+/**
+ * 某一类句柄的分配器
+ * - 槽位释放后进入空闲列表，复用时 generation + 1
+ * - 每类资源各有一个分配器，同类句柄的 id 不会冲突
+ */
+export class HandleAllocator<K extends HandleKind> {
+    // 槽位下标 → 当前 generation（从 1 开始）
+    private generations: number[] = [];
+    private alive: boolean[] = [];
+    private names: (string | undefined)[] = [];
+    private freeList: number[] = [];
+
+    constructor(readonly kind: K) { }
+
+    allocate(name?: string): Handle<K> {
+        let id = this.freeList.pop();
+        if (id === undefined) {
+            // 槽位 0 保留，id 从 1 开始
+            id = this.generations.length + 1;
+            this.generations[id - 1] = 0;
+        }
+        const generation = ++this.generations[id - 1];
+        this.alive[id - 1] = true;
+        this.names[id - 1] = name;
+        return { kind: this.kind, id, generation, name };
+    }
+
+    /**
+     * 释放句柄（之后该句柄及其副本均视为过期）
+     * @returns 句柄已过期时返回 false
+     */
+    free(handle: Handle<K>): boolean {
+        if (!this.isAlive(handle)) {
+            return false;
+        }
+        this.alive[handle.id - 1] = false;
+        this.names[handle.id - 1] = undefined;
+        this.freeList.push(handle.id);
+        return true;
+    }
+
+    isAlive(handle: Handle<K>): boolean {
+        const index = handle.id - 1;
+        return handle.kind === this.kind
+            && this.alive[index] === true
+            && this.generations[index] === handle.generation;
+    }
+
+    /**
+     * 句柄过期时抛出 StaleHandleError
+     */
+    assertAlive(handle: Handle<K>): void {
+        if (!this.isAlive(handle)) {
+            throw new StaleHandleError(handle);
+        }
+    }
+
+    /** 当前存活的句柄数量 */
+    get liveCount(): number {
+        return this.generations.length - this.freeList.length;
+    }
+}
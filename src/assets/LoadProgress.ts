@@ -0,0 +1,133 @@
+import { IAsset } from "./asset_types/IAsset";
+import { AssetState, AssetType } from "./AssetEnums";
+import { FileReadProgress, VirtualFileSystem } from "./io/VirtualFileSystem";
+import type { AssetManager } from "./AssetManager";
+
+/**
+ * 单个 Asset 的加载状态
+ */
+export interface AssetProgressEntry {
+    id: string;
+    type: AssetType;
+    state: AssetState;
+    error?: Error;
+}
+
+/**
+ * prepare 的整体进度快照
+ * - total 包含加载过程中经依赖新发现的 Asset，因此可能增长
+ */
+export interface LoadProgress {
+    /** 需要加载的 Asset 总数（根 + 传递依赖） */
+    total: number;
+    /** 已 Ready 的数量 */
+    loaded: number;
+    /** 已 Failed 的数量 */
+    failed: number;
+    /** 已读取的字节数 */
+    bytesLoaded: number;
+    /** 已知的总字节数（存在大小未知的文件时为 null） */
+    bytesTotal: number | null;
+    assets: readonly AssetProgressEntry[];
+    failures: readonly AssetProgressEntry[];
+}
+
+export type LoadProgressListener = (progress: LoadProgress) => void;
+
+/**
+ * 跟踪一组根 Asset（及其传递依赖）的加载进度
+ * - 任一相关 Asset 状态变化或文件读取进度变化时回调
+ * - 字节数统计跟踪期间经 VirtualFileSystem 读取的所有文件
+ */
+export class LoadProgressTracker {
+    private readonly roots: readonly IAsset[];
+    private files = new Map<string, { loaded: number; total: number | undefined }>();
+    private unsubscribers: (() => void)[] = [];
+    private stopped = false;
+
+    constructor(
+        roots: Iterable<IAsset>,
+        assetManager: AssetManager,
+        fileSystem: VirtualFileSystem,
+        private readonly listener: LoadProgressListener
+    ) {
+        this.roots = Array.from(roots);
+        this.unsubscribers.push(
+            assetManager.onAssetStateChange(asset => {
+                if (this.collect().has(asset)) {
+                    this.emit();
+                }
+            }),
+            fileSystem.onRead(progress => this.onRead(progress))
+        );
+    }
+
+    snapshot(): LoadProgress {
+        const assets: AssetProgressEntry[] = [];
+        for (const asset of this.collect()) {
+            assets.push({ id: asset.id, type: asset.type, state: asset.state, error: asset.error });
+        }
+        const failures = assets.filter(entry => entry.state === AssetState.Failed);
+
+        let bytesLoaded = 0;
+        let bytesTotal: number | null = 0;
+        for (const { loaded, total } of this.files.values()) {
+            bytesLoaded += loaded;
+            bytesTotal = total === undefined || bytesTotal === null ? null : bytesTotal + total;
+        }
+
+        return {
+            total: assets.length,
+            loaded: assets.filter(entry => entry.state === AssetState.Ready).length,
+            failed: failures.length,
+            bytesLoaded,
+            bytesTotal,
+            assets,
+            failures,
+        };
+    }
+
+    /** 报告最终进度并停止跟踪 */
+    stop(): void {
+        if (this.stopped) {
+            return;
+        }
+        this.emit();
+        this.stopped = true;
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+    }
+
+    private onRead(progress: FileReadProgress): void {
+        this.files.set(progress.path, { loaded: progress.loaded, total: progress.total });
+        this.emit();
+    }
+
+    /** 根及其当前已知的传递依赖（依赖在 load 之后可能增加） */
+    private collect(): Set<IAsset> {
+        const visited = new Set<IAsset>();
+        const stack = [...this.roots];
+        while (stack.length > 0) {
+            const asset = stack.pop()!;
+            if (visited.has(asset)) {
+                continue;
+            }
+            visited.add(asset);
+            stack.push(...asset.getDependencies());
+        }
+        return visited;
+    }
+
+    private emit(): void {
+        if (this.stopped) {
+            return;
+        }
+        try {
+            this.listener(this.snapshot());
+        } catch (err) {
+            console.error('Load progress listener failed:', err);
+        }
+    }
+}
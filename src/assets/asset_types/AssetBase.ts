@@ -0,0 +1,172 @@
+import { AssetStateListener, IAsset, ILoadableAsset } from "./IAsset";
+import { AssetState, AssetType } from "../AssetEnums";
+import { AssetLoadContext } from "../loaders/IAssetLoader";
+
+/**
+ * Asset 公共基类
+ * - 维护状态机并广播状态变化
+ * - 提供 whenSettled 完成 Promise，替代轮询
+ * - 统一 load / reload / 取消流程，子类只实现 loadData
+ */
+export abstract class AssetBase implements ILoadableAsset {
+    readonly id: string;
+    abstract readonly type: AssetType;
+
+    private _state: AssetState = AssetState.Unloaded;
+    private _error?: Error;
+
+    private listeners = new Set<AssetStateListener>();
+    // 当前这一轮加载的完成信号（进入 Ready / Failed 或被取消时 resolve）
+    private settle: { promise: Promise<void>; resolve: () => void } | null = null;
+
+    protected constructor(id: string) {
+        this.id = id;
+    }
+
+    get state(): AssetState {
+        return this._state;
+    }
+
+    get error(): Error | undefined {
+        return this._error;
+    }
+
+    onStateChange(listener: AssetStateListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    whenSettled(): Promise<void> {
+        if (this._state === AssetState.Ready || this._state === AssetState.Failed) {
+            return Promise.resolve();
+        }
+        if (!this.settle) {
+            let resolve!: () => void;
+            const promise = new Promise<void>(r => (resolve = r));
+            this.settle = { promise, resolve };
+        }
+        return this.settle.promise;
+    }
+
+    getDependencies(): readonly IAsset[] {
+        return [];
+    }
+
+    isSoftDependency(dependency: IAsset): boolean {
+        return false;
+    }
+
+    async load(context?: AssetLoadContext, signal?: AbortSignal): Promise<void> {
+        if (this._state !== AssetState.Unloaded || !this.canReload()) {
+            return;
+        }
+        await this.runLoad(context, signal);
+    }
+
+    async reload(context?: AssetLoadContext, signal?: AbortSignal): Promise<void> {
+        if (this._state === AssetState.Loading) {
+            return this.whenSettled();
+        }
+        if (this._state === AssetState.Unloaded) {
+            return this.load(context, signal);
+        }
+        if (!this.canReload()) {
+            return;
+        }
+        await this.runLoad(context, signal);
+    }
+
+    markFailed(error: Error): void {
+        this.setState(AssetState.Failed, error);
+    }
+
+    getCPUByteSize(): number {
+        return 0;
+    }
+
+    unload(): void {
+        if (this._state === AssetState.Loading || !this.canReload()) {
+            return;
+        }
+        this.clearCPUData();
+        this.setState(AssetState.Unloaded);
+    }
+
+    /** 回到 Unloaded 之后能否重新 load（数据有独立来源） */
+    protected canReload(): boolean {
+        return true;
+    }
+
+    /**
+     * 从来源读取 CPU 数据（子类实现，失败时抛出）
+     * @param context 缺省时使用全局默认环境
+     */
+    protected loadData(context: AssetLoadContext | undefined, signal: AbortSignal | undefined): Promise<void> {
+        return Promise.reject(new Error(`Asset has no source to load from: ${this.id}`));
+    }
+
+    /**
+     * 执行一轮加载：Loading → Ready / Failed
+     * - 被取消时丢弃结果并回到 Unloaded（不算失败）
+     */
+    private async runLoad(context: AssetLoadContext | undefined, signal: AbortSignal | undefined): Promise<void> {
+        this.setState(AssetState.Loading);
+
+        try {
+            signal?.throwIfAborted();
+            await this.loadData(context, signal);
+            // 完成后才被取消的结果同样丢弃
+            signal?.throwIfAborted();
+            this.setState(AssetState.Ready);
+        } catch (err) {
+            if (signal?.aborted) {
+                this.clearCPUData();
+                this.setState(AssetState.Unloaded);
+            } else {
+                this.setState(AssetState.Failed, err as Error);
+            }
+            throw err;
+        }
+    }
+
+    /** unload 时清空 CPU 数据，默认同 discardCPUData */
+    protected clearCPUData(): void {
+        this.discardCPUData();
+    }
+
+    /**
+     * 推进状态（仅供子类调用）
+     * - 进入 Failed 时记录 error，其余状态清空 error
+     * - 进入 Ready / Failed 或加载被取消时唤醒所有 whenSettled 的等待者
+     */
+    protected setState(state: AssetState, error?: Error): void {
+        const previous = this._state;
+        if (previous === state) {
+            return;
+        }
+
+        this._state = state;
+        this._error = state === AssetState.Failed ? error : undefined;
+
+        if (state === AssetState.Ready || state === AssetState.Failed || previous === AssetState.Loading) {
+            const settle = this.settle;
+            this.settle = null;
+            settle?.resolve();
+        }
+
+        // 复制一份，允许回调中取消订阅
+        for (const listener of [...this.listeners]) {
+            try {
+                listener(this, state, previous);
+            } catch (err) {
+                console.error(`Asset state listener failed (${this.id}):`, err);
+            }
+        }
+    }
+
+    abstract getCPUData(): unknown;
+    abstract canDiscardCPUData(): boolean;
+    abstract discardCPUData(): void;
+}
@@ -1,12 +1,55 @@
 import { AssetState } from "../AssetEnums";
 import { AssetType } from "../AssetEnums";
+import { IGPUResourceFactory } from "../../rendering/IGPUResourceFactory";
+import { AssetLoadContext } from "../loaders/IAssetLoader";
+
+/**
+ * Asset 状态变化回调
+ * @param asset 发生变化的 Asset
+ * @param state 新状态
+ * @param previous 旧状态
+ */
+export type AssetStateListener = (asset: IAsset, state: AssetState, previous: AssetState) => void;
 
 export interface IAsset {
     readonly id: string;          // 全局唯一（URL / hash / GUID）
     readonly type: AssetType;
 
-    state: AssetState;
-    error?: Error;
+    /**
+     * 状态由 Asset 自己推进（Unloaded → Loading → Ready / Failed）
+     * - 唯一例外：依赖失败时由 AssetManager 通过 markFailed 传播（软依赖除外）
+     */
+    readonly state: AssetState;
+    readonly error?: Error;
+
+    /**
+     * 直接依赖（如 Material → Texture，Model → Mesh / Material）
+     * - 部分依赖在 load 之后才能确定（如 glTF 引用的贴图）
+     */
+    getDependencies(): readonly IAsset[];
+
+    /**
+     * 是否为软依赖：依赖失败时自身仍可使用（如材质的贴图由回退纹理代替），失败不向上传播
+     * @param dependency getDependencies 返回的依赖
+     */
+    isSoftDependency(dependency: IAsset): boolean;
+
+    /** 依赖失败时使 Asset 进入 Failed */
+    markFailed(error: Error): void;
+
+    /**
+     * 订阅状态变化
+     * @returns 取消订阅的函数
+     */
+    onStateChange(listener: AssetStateListener): () => void;
+
+    /**
+     * 等待 Asset 进入 Ready 或 Failed
+     * - 永不 reject，失败原因见 error
+     * - Unloaded 时会一直等到有人触发 load
+     * - 加载被取消（回到 Unloaded）时同样返回
+     */
+    whenSettled(): Promise<void>;
 
      /**
      * 返回 CPU 侧数据（RenderSystem 使用）
@@ -19,8 +62,63 @@ export interface IAsset {
 
     /** 执行释放（不保证立刻） */
     discardCPUData(): void;
+
+    /** 当前常驻的 CPU 数据大小（字节，用于内存预算） */
+    getCPUByteSize(): number;
+
+    /**
+     * 释放全部 CPU 数据并回到 Unloaded，之后可再次 load
+     * - 无法重新加载的 Asset（如导入器直接生成的数据）保持不变
+     * - 例外：MaterialAsset 释放其材质占用的资源，之后不能再 load
+     */
+    unload(): void;
+}
+
+/**
+ * 拥有 GPU 对象的 Asset（Shader / Texture / Mesh）
+ * - 仅通过 Handle 向 RenderSystem 注册 / 销毁，不接触 GPU 类型
+ */
+export interface IGPUAsset extends IAsset {
+    /**
+     * 用 CPU 数据创建 GPU 对象
+     * @returns 占用的 GPU 字节数（估算）
+     */
+    uploadGPU(factory: IGPUResourceFactory): number;
+
+    /** 销毁 GPU 对象 */
+    releaseGPU(factory: IGPUResourceFactory): void;
+}
+
+export function isGPUAsset(asset: IAsset): asset is IGPUAsset {
+    const candidate = asset as Partial<IGPUAsset>;
+    return typeof candidate.uploadGPU === 'function' && typeof candidate.releaseGPU === 'function';
+}
+
+/**
+ * 由多个文件组成的 Asset（如带 #include 的 Shader）
+ * - 其中任一文件变化时需要重新加载
+ */
+export interface ISourceFileAsset extends IAsset {
+    /** 上一次加载读取的所有文件（绝对路径） */
+    getSourceFiles(): readonly string[];
+}
+
+export function isSourceFileAsset(asset: IAsset): asset is ISourceFileAsset {
+    return typeof (asset as Partial<ISourceFileAsset>).getSourceFiles === 'function';
 }
 
 export interface ILoadableAsset extends IAsset {
-    load(): Promise<void>;
-}
\ No newline at end of file
+    /**
+     * 仅在 Unloaded 时加载
+     * @param context 文件系统与 Loader 注册表（缺省使用全局默认环境）
+     * @param signal 取消后 Asset 回到 Unloaded
+     */
+    load(context?: AssetLoadContext, signal?: AbortSignal): Promise<void>;
+
+    /**
+     * 重新加载：Failed / Ready 重新经过 Loading
+     * - 加载中时等待当前这一轮结束
+     * - 失败时保留上一次成功加载的数据
+     */
+    reload(context?: AssetLoadContext, signal?: AbortSignal): Promise<void>;
+}
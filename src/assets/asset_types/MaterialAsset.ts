@@ -0,0 +1,123 @@
+import { AssetBase } from "./AssetBase";
+import { AssetState, AssetType } from "../AssetEnums";
+import { TextureAsset } from "./TextureAsset";
+import { IAsset } from "./IAsset";
+import { Material } from "../../rendering/Material";
+import { createStandardMaterial } from "../../rendering/StandardMaterial";
+
+export type AlphaMode = 'opaque' | 'mask' | 'blend';
+
+/**
+ * 导入器提供的材质描述（金属度 / 粗糙度工作流）
+ * - 纹理以 TextureAsset 引用，GPU 侧按其 handle 查找
+ * - MaterialAsset 据此创建内置着色器的 Material
+ */
+export interface MaterialData {
+    name: string;
+    baseColorFactor: [number, number, number, number];
+    baseColorTexture: TextureAsset | null;
+    metallicFactor: number;
+    roughnessFactor: number;
+    metallicRoughnessTexture: TextureAsset | null;
+    normalTexture: TextureAsset | null;
+    occlusionTexture: TextureAsset | null;
+    emissiveFactor: [number, number, number];
+    emissiveTexture: TextureAsset | null;
+    alphaMode: AlphaMode;
+    alphaCutoff: number;
+    doubleSided: boolean;
+}
+
+/** 未指定的参数使用 glTF 规范中的默认值 */
+export function createMaterialData(overrides: Partial<MaterialData> = {}): MaterialData {
+    return {
+        name: '',
+        baseColorFactor: [1, 1, 1, 1],
+        baseColorTexture: null,
+        metallicFactor: 1,
+        roughnessFactor: 1,
+        metallicRoughnessTexture: null,
+        normalTexture: null,
+        occlusionTexture: null,
+        emissiveFactor: [0, 0, 0],
+        emissiveTexture: null,
+        alphaMode: 'opaque',
+        alphaCutoff: 0.5,
+        doubleSided: false,
+        ...overrides,
+    };
+}
+
+/**
+ * MaterialAsset
+ * - CPU 侧数据是 Material（着色器、参数、纹理与渲染状态）
+ * - 以 MaterialData 构造时使用内置 unlit 着色器，以 Material 构造时使用其自带的着色器
+ * - 贴图是软依赖：贴图加载失败时材质仍为 Ready，绘制时使用回退纹理
+ * - 由 MaterialData 创建的材质归 Asset 所有，unload 时随之 dispose（释放参数缓冲区与 BindGroup）
+ */
+export class MaterialAsset extends AssetBase {
+    readonly type = AssetType.Material;
+
+    private material: Material | null = null;
+    // material 是否由本 Asset 创建（unload 时 dispose）
+    private ownsMaterial = false;
+
+    /**
+     * @param id 全局唯一 id
+     * @param source 由导入器提供的描述或自定义的 Material（提供时立即进入 Ready）
+     */
+    constructor(id: string, source?: MaterialData | Material) {
+        super(id);
+        if (source) {
+            this.material = source instanceof Material ? source : createStandardMaterial(source);
+            this.ownsMaterial = !(source instanceof Material);
+            this.setState(AssetState.Ready);
+        }
+    }
+
+    getDependencies(): readonly IAsset[] {
+        return this.material?.getTextureAssets() ?? [];
+    }
+
+    isSoftDependency(dependency: IAsset): boolean {
+        return dependency.type === AssetType.Texture;
+    }
+
+    getCPUData(): Material | null {
+        return this.material;
+    }
+
+    getCPUByteSize(): number {
+        // 参数块在 GPU 侧有同样大小的缓冲区
+        return this.material?.getParameterData()?.byteLength ?? 0;
+    }
+
+    /**
+     * 释放材质并回到 Unloaded
+     * - 数据只能由导入器提供，之后不能再次 load（需重新加载所属模型）
+     */
+    unload(): void {
+        if (!this.material) {
+            return;
+        }
+        if (this.ownsMaterial) {
+            this.material.dispose();
+        }
+        this.material = null;
+        this.setState(AssetState.Unloaded);
+    }
+
+    canDiscardCPUData(): boolean {
+        // 材质参数很小，常驻
+        return false;
+    }
+
+    discardCPUData(): void {
+        // 不释放
+    }
+
+    protected canReload(): boolean {
+        // 数据只能由导入器提供
+        return false;
+    }
+}
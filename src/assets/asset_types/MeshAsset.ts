@@ -0,0 +1,193 @@
+import { AssetBase } from "./AssetBase";
+import { AssetState, AssetType } from "../AssetEnums";
+import { MeshHandle, createMeshHandle } from "../AssetHandle";
+import { MaterialAsset } from "./MaterialAsset";
+import { AssetLoadContext } from "../loaders/IAssetLoader";
+import { getDefaultLoadContext } from "../AssetLoadContext";
+import { IAsset, IGPUAsset } from "./IAsset";
+import { IGPUResourceFactory } from "../../rendering/IGPUResourceFactory";
+
+/** 顶点属性语义（RenderSystem 侧按语义映射到 shader location） */
+export type VertexSemantic = 'position' | 'normal' | 'uv' | 'color';
+
+/** 顶点属性格式（与 GPUVertexFormat 同名，但 Asset 侧不依赖 WebGPU 类型） */
+export type VertexFormat = 'float32x2' | 'float32x3' | 'float32x4';
+
+export interface VertexAttribute {
+    semantic: VertexSemantic;
+    format: VertexFormat;
+    /** 在单个顶点内的字节偏移 */
+    offset: number;
+}
+
+/** 交错顶点缓冲区布局 */
+export interface VertexLayout {
+    arrayStride: number;
+    attributes: VertexAttribute[];
+}
+
+/** 子网格：共享顶点 / 索引缓冲区，按材质分段绘制 */
+export interface SubMesh {
+    firstIndex: number;
+    indexCount: number;
+    material: MaterialAsset | null;
+}
+
+/**
+ * Mesh 的 CPU 侧数据（RenderSystem 据此创建 GPUBuffer）
+ */
+export interface MeshData {
+    /** 交错排列的顶点数据 */
+    vertices: Float32Array;
+    vertexCount: number;
+    layout: VertexLayout;
+    indices: Uint16Array | Uint32Array;
+    subMeshes: SubMesh[];
+}
+
+/**
+ * 导入器统一输出的顶点布局：position / normal / uv / color，共 48 字节
+ */
+export const STANDARD_VERTEX_LAYOUT: VertexLayout = {
+    arrayStride: 12 * 4,
+    attributes: [
+        { semantic: 'position', format: 'float32x3', offset: 0 },
+        { semantic: 'normal', format: 'float32x3', offset: 12 },
+        { semantic: 'uv', format: 'float32x2', offset: 24 },
+        { semantic: 'color', format: 'float32x4', offset: 32 },
+    ],
+};
+
+/** 构建标准布局所需的分离属性（缺省的属性用默认值填充） */
+export interface StandardVertexStreams {
+    positions: ArrayLike<number>;
+    normals?: ArrayLike<number> | null;
+    uvs?: ArrayLike<number> | null;
+    /** 每顶点 4 个分量（RGBA） */
+    colors?: ArrayLike<number> | null;
+}
+
+/**
+ * 将分离的顶点属性交错为 STANDARD_VERTEX_LAYOUT
+ * - normal 缺省为 0，uv 缺省为 0，color 缺省为白色
+ */
+export function interleaveStandardVertices(streams: StandardVertexStreams): Float32Array {
+    const { positions, normals, uvs, colors } = streams;
+    const vertexCount = positions.length / 3;
+    const out = new Float32Array(vertexCount * 12);
+
+    for (let i = 0; i < vertexCount; i++) {
+        const o = i * 12;
+        out[o] = positions[i * 3];
+        out[o + 1] = positions[i * 3 + 1];
+        out[o + 2] = positions[i * 3 + 2];
+        if (normals) {
+            out[o + 3] = normals[i * 3];
+            out[o + 4] = normals[i * 3 + 1];
+            out[o + 5] = normals[i * 3 + 2];
+        }
+        if (uvs) {
+            out[o + 6] = uvs[i * 2];
+            out[o + 7] = uvs[i * 2 + 1];
+        }
+        if (colors) {
+            out[o + 8] = colors[i * 4];
+            out[o + 9] = colors[i * 4 + 1];
+            out[o + 10] = colors[i * 4 + 2];
+            out[o + 11] = colors[i * 4 + 3];
+        } else {
+            out[o + 8] = out[o + 9] = out[o + 10] = out[o + 11] = 1;
+        }
+    }
+
+    return out;
+}
+
+/** 根据顶点数量选择最小的索引类型 */
+export function createIndexArray(indices: ArrayLike<number>, vertexCount: number): Uint16Array | Uint32Array {
+    return vertexCount > 0xffff ? Uint32Array.from(indices) : Uint16Array.from(indices);
+}
+
+/**
+ * MeshAsset
+ * - 以路径构造时按扩展名经 Loader 注册表加载（内置 OBJ / MTL）
+ * - 以 data 构造时由导入器（如 glTF）直接提供数据
+ */
+export class MeshAsset extends AssetBase implements IGPUAsset {
+    readonly type = AssetType.Mesh;
+
+    /** 与 RenderSystem 侧 GPUBuffer 一一对应的句柄 */
+    readonly handle: MeshHandle = createMeshHandle(this.id);
+
+    // 有 url 来源时才能从文件加载 / 恢复
+    private readonly url: string | null;
+
+    // CPU 侧数据（交错顶点 + 索引）
+    private data: MeshData | null = null;
+
+    /**
+     * @param id 全局唯一 id（未提供 data 时作为文件路径，按扩展名选择 Loader）
+     * @param data 由导入器直接提供的数据（提供时立即进入 Ready）
+     */
+    constructor(id: string, data?: MeshData) {
+        super(id);
+        this.url = data ? null : id;
+        if (data) {
+            this.data = data;
+            this.setState(AssetState.Ready);
+        }
+    }
+
+    protected async loadData(
+        context: AssetLoadContext = getDefaultLoadContext(),
+        signal?: AbortSignal
+    ): Promise<void> {
+        if (!this.url) {
+            throw new Error(`Mesh has no source to load from: ${this.id}`);
+        }
+        const loader = context.loaders.get<{ data: MeshData }>(AssetType.Mesh, this.url);
+        const { data } = await loader.load(this.url, context, signal);
+        this.data = data;
+    }
+
+    /** 子网格引用的材质（MTL / glTF 材质在 load 之后才可知） */
+    getDependencies(): readonly IAsset[] {
+        const materials = this.data?.subMeshes.map(subMesh => subMesh.material) ?? [];
+        return [...new Set(materials.filter((m): m is MaterialAsset => m !== null))];
+    }
+
+    getCPUData(): MeshData | null {
+        return this.data;
+    }
+
+    canDiscardCPUData(): boolean {
+        // 从文件加载的可重新加载；由导入器生成的数据没有独立来源，丢弃后无法恢复
+        return this.url !== null;
+    }
+
+    discardCPUData(): void {
+        if (this.canDiscardCPUData()) {
+            this.data = null;
+        }
+    }
+
+    getCPUByteSize(): number {
+        return (this.data?.vertices.byteLength ?? 0) + (this.data?.indices.byteLength ?? 0);
+    }
+
+    uploadGPU(factory: IGPUResourceFactory): number {
+        if (!this.data) {
+            throw new Error(`Mesh data not loaded: ${this.id}`);
+        }
+        factory.createMesh(this.handle, this.data);
+        return this.data.vertices.byteLength + this.data.indices.byteLength;
+    }
+
+    releaseGPU(factory: IGPUResourceFactory): void {
+        factory.destroyMesh(this.handle);
+    }
+
+    protected canReload(): boolean {
+        return this.url !== null;
+    }
+}
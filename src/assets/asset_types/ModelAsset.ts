@@ -0,0 +1,85 @@
+import { mat4 } from "gl-matrix";
+import { AssetBase } from "./AssetBase";
+import { AssetType } from "../AssetEnums";
+import { MeshAsset } from "./MeshAsset";
+import { MaterialAsset } from "./MaterialAsset";
+import { TextureAsset } from "./TextureAsset";
+import { AssetLoadContext } from "../loaders/IAssetLoader";
+import { getDefaultLoadContext } from "../AssetLoadContext";
+import { IAsset } from "./IAsset";
+
+/**
+ * 模型中的一个节点
+ */
+export interface ModelNode {
+    name: string;
+    /** 相对父节点的局部变换 */
+    matrix: mat4;
+    mesh: MeshAsset | null;
+    /** 子节点在 ModelData.nodes 中的下标 */
+    children: number[];
+}
+
+/**
+ * Model 的 CPU 侧数据：节点层级 + 其引用的子资产
+ */
+export interface ModelData {
+    nodes: ModelNode[];
+    /** 根节点在 nodes 中的下标 */
+    roots: number[];
+    meshes: MeshAsset[];
+    materials: MaterialAsset[];
+    textures: TextureAsset[];
+}
+
+/**
+ * ModelAsset 从 glTF 2.0（.gltf / .glb）导入
+ * - 产出 Mesh / Material / Texture 子资产与节点层级
+ * - 由 Scene 实例化为 Renderable
+ */
+export class ModelAsset extends AssetBase {
+    readonly type = AssetType.Model;
+
+    private readonly url: string;
+
+    private data: ModelData | null = null;
+
+    constructor(url: string) {
+        super(url);
+        this.url = url;
+    }
+
+    protected async loadData(
+        context: AssetLoadContext = getDefaultLoadContext(),
+        signal?: AbortSignal
+    ): Promise<void> {
+        const loader = context.loaders.get<ModelData>(AssetType.Model, this.url);
+        this.data = await loader.load(this.url, context, signal);
+    }
+
+    /** 子资产在解析 glTF 之后才可知（贴图经由材质间接依赖） */
+    getDependencies(): readonly IAsset[] {
+        if (!this.data) {
+            return [];
+        }
+        return [...this.data.meshes, ...this.data.materials];
+    }
+
+    getCPUData(): ModelData | null {
+        return this.data;
+    }
+
+    canDiscardCPUData(): boolean {
+        // 节点层级是实例化所需，常驻
+        return false;
+    }
+
+    discardCPUData(): void {
+        // 不释放
+    }
+
+    protected clearCPUData(): void {
+        // 子资产由 AssetManager 按引用计数单独回收
+        this.data = null;
+    }
+}
@@ -1,55 +1,145 @@
-import { IAsset } from "./IAsset";
-import { AssetState, AssetType } from "../AssetEnums";
+import { AssetBase } from "./AssetBase";
+import { AssetType } from "../AssetEnums";
+import { createShaderHandle, ShaderHandle } from "../AssetHandle";
+import { IGPUAsset, ISourceFileAsset } from "./IAsset";
+import { IGPUResourceFactory } from "../../rendering/IGPUResourceFactory";
+import { AssetLoadContext } from "../loaders/IAssetLoader";
+import { getDefaultLoadContext } from "../AssetLoadContext";
+import {
+    findIncludes,
+    getVariantKey,
+    preprocessWgsl,
+    PreprocessedShader,
+    ShaderDefines,
+    ShaderSourceFile,
+} from "../shader/WgslPreprocessor";
 
-export class ShaderAsset implements IAsset {
-    readonly id: string;
+/**
+ * ShaderAsset
+ * - 加载入口文件及其 #include / #import 引用的所有文件（经 Loader 注册表读取）
+ * - 按宏定义预处理出变体；handle 对应无宏的基础变体
+ */
+export class ShaderAsset extends AssetBase implements IGPUAsset, ISourceFileAsset {
     readonly type = AssetType.Shader;
 
-    state: AssetState = AssetState.Unloaded;
-    error?: Error;
+    /** 与 RenderSystem 侧 GPUShaderModule 一一对应的句柄 */
+    readonly handle: ShaderHandle = createShaderHandle(this.id);
 
     private readonly url: string;
 
-    // CPU 侧数据（WGSL 源码）
-    private sourceCode: string | null = null;
+    // CPU 侧数据（入口文件与引用文件的 WGSL 源码，按绝对路径）
+    private sources: Map<string, ShaderSourceFile> | null = null;
+    // 变体 key → 预处理结果
+    private variants = new Map<string, PreprocessedShader>();
 
     constructor(url: string) {
-        this.id = url;
+        super(url);
         this.url = url;
     }
 
-    async load(): Promise<void> {
-        if (this.state !== AssetState.Unloaded) {
+    protected async loadData(
+        context: AssetLoadContext = getDefaultLoadContext(),
+        signal?: AbortSignal
+    ): Promise<void> {
+        const root = context.fileSystem.resolve(this.url);
+        const sources = new Map<string, ShaderSourceFile>();
+        await ShaderAsset.loadSource(root, sources, context, signal);
+
+        // 基础变体预处理失败时视为加载失败（保留上一次成功的源码）
+        const base = preprocessWgsl(root, sources);
+
+        this.sources = sources;
+        this.variants = new Map([['', base]]);
+    }
+
+    private static async loadSource(
+        path: string,
+        sources: Map<string, ShaderSourceFile>,
+        context: AssetLoadContext,
+        signal: AbortSignal | undefined
+    ): Promise<void> {
+        if (sources.has(path)) {
             return;
         }
 
-        this.state = AssetState.Loading;
+        const file: ShaderSourceFile = { path, code: '', includes: new Map() };
+        // 先占位，引用成环时不会重复读取
+        sources.set(path, file);
 
-        try {
-            const response = await fetch(this.url);
-            if (!response.ok) {
-                throw new Error(`Failed to load shader: ${this.url}`);
-            }
+        const loader = context.loaders.get<string>(AssetType.Shader, path);
+        file.code = await loader.load(path, context, signal);
 
-            this.sourceCode = await response.text();
-            this.state = AssetState.Ready;
-        } catch (err) {
-            this.state = AssetState.Failed;
-            this.error = err as Error;
-            throw err;
+        const includes = new Map<string, string>();
+        for (const include of findIncludes(file.code)) {
+            includes.set(include, context.fileSystem.resolve(include, path));
         }
+        file.includes = includes;
+
+        await Promise.all([...includes.values()].map(include =>
+            ShaderAsset.loadSource(include, sources, context, signal)
+        ));
     }
 
+    /**
+     * 预处理出指定宏定义的变体（结果按变体 key 缓存）
+     * @throws ShaderPreprocessError 源码未加载或预处理失败时
+     */
+    preprocess(defines: ShaderDefines = {}): PreprocessedShader {
+        const key = getVariantKey(defines);
+        let variant = this.variants.get(key);
+        if (!variant) {
+            if (!this.sources) {
+                throw new Error(`Shader source not loaded: ${this.id}`);
+            }
+            const root = this.sources.keys().next().value as string;
+            variant = preprocessWgsl(root, this.sources, defines);
+            this.variants.set(key, variant);
+        }
+        return variant;
+    }
+
+    /** 入口文件的源码 */
     getCPUData(): string | null {
-        return this.sourceCode;
+        return this.sources?.values().next().value?.code ?? null;
+    }
+
+    getSourceFiles(): readonly string[] {
+        return this.sources ? [...this.sources.keys()] : [this.url];
     }
 
     canDiscardCPUData(): boolean {
-        // Shader 通常可以丢弃源码（除非支持热重载）
-        return true;
+        // 变体在首次使用时才从源码预处理，源码常驻
+        return false;
     }
 
     discardCPUData(): void {
-        this.sourceCode = null;
+        // 不释放
+    }
+
+    protected clearCPUData(): void {
+        this.sources = null;
+        this.variants.clear();
+    }
+
+    getCPUByteSize(): number {
+        // UTF-16
+        let length = 0;
+        for (const file of this.sources?.values() ?? []) {
+            length += file.code.length;
+        }
+        return length * 2;
+    }
+
+    uploadGPU(factory: IGPUResourceFactory): number {
+        if (!this.sources) {
+            throw new Error(`Shader source not loaded: ${this.id}`);
+        }
+        const { code, sourceMap } = this.preprocess();
+        factory.createShaderModule(this.handle, code, sourceMap);
+        return code.length;
+    }
+
+    releaseGPU(factory: IGPUResourceFactory): void {
+        factory.destroyShaderModule(this.handle);
     }
 }
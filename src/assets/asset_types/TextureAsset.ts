@@ -0,0 +1,103 @@
+import { AssetBase } from "./AssetBase";
+import { AssetType } from "../AssetEnums";
+import { TextureHandle, createTextureHandle } from "../AssetHandle";
+import { IGPUAsset } from "./IAsset";
+import { IGPUResourceFactory } from "../../rendering/IGPUResourceFactory";
+import { AssetLoadContext } from "../loaders/IAssetLoader";
+import { DecodedImage, decodeImage } from "../loaders/TextureLoader";
+import { getDefaultLoadContext } from "../AssetLoadContext";
+
+/**
+ * 颜色空间
+ * - srgb：颜色贴图（Albedo / Emissive），采样时自动转线性
+ * - linear：数据贴图（Normal / Roughness 等），按原值采样
+ */
+export type TextureColorSpace = 'srgb' | 'linear';
+
+/**
+ * Texture 的 CPU 侧数据（RenderSystem 据此创建 GPUTexture）
+ */
+export interface TextureData {
+    width: number;
+    height: number;
+    /** RGBA8，逐行紧密排列（bytesPerRow = width * 4） */
+    pixels: Uint8Array;
+    colorSpace: TextureColorSpace;
+}
+
+export interface TextureAssetOptions {
+    /** 默认 srgb */
+    colorSpace?: TextureColorSpace;
+    /** 默认使用 url（同一图片以不同颜色空间使用时需区分） */
+    id?: string;
+}
+
+export class TextureAsset extends AssetBase implements IGPUAsset {
+    readonly type = AssetType.Texture;
+
+    /** 与 RenderSystem 侧 GPUTexture 一一对应的句柄 */
+    readonly handle: TextureHandle = createTextureHandle(this.id);
+    readonly colorSpace: TextureColorSpace;
+
+    private readonly url: string;
+    // 内嵌的编码数据（如 GLB 中的图片），存在时不再读取文件
+    private encoded: Uint8Array | null = null;
+
+    // CPU 侧数据（解码后的像素）
+    private data: TextureData | null = null;
+
+    constructor(url: string, options: TextureAssetOptions = {}) {
+        super(options.id ?? url);
+        this.url = url;
+        this.colorSpace = options.colorSpace ?? 'srgb';
+    }
+
+    /**
+     * 从已编码的图片数据创建（PNG / JPEG / WebP）
+     * @param id 全局唯一 id
+     */
+    static fromBytes(id: string, bytes: Uint8Array, options: TextureAssetOptions = {}): TextureAsset {
+        const asset = new TextureAsset(id, { ...options, id });
+        asset.encoded = bytes;
+        return asset;
+    }
+
+    protected async loadData(
+        context: AssetLoadContext = getDefaultLoadContext(),
+        signal?: AbortSignal
+    ): Promise<void> {
+        const image: DecodedImage = this.encoded
+            ? await decodeImage(this.encoded, this.id)
+            : await context.loaders.get<DecodedImage>(AssetType.Texture, this.url).load(this.url, context, signal);
+        this.data = { ...image, colorSpace: this.colorSpace };
+    }
+
+    getCPUData(): TextureData | null {
+        return this.data;
+    }
+
+    canDiscardCPUData(): boolean {
+        // 像素数据可从 url / 内嵌数据重新解码恢复（例如 Device lost 之后）
+        return true;
+    }
+
+    discardCPUData(): void {
+        this.data = null;
+    }
+
+    getCPUByteSize(): number {
+        return (this.data?.pixels.byteLength ?? 0) + (this.encoded?.byteLength ?? 0);
+    }
+
+    uploadGPU(factory: IGPUResourceFactory): number {
+        if (!this.data) {
+            throw new Error(`Texture data not loaded: ${this.id}`);
+        }
+        factory.createTexture(this.handle, this.data);
+        return this.data.width * this.data.height * 4;
+    }
+
+    releaseGPU(factory: IGPUResourceFactory): void {
+        factory.destroyTexture(this.handle);
+    }
+}
@@ -0,0 +1,178 @@
+import { AssetType } from "../AssetEnums";
+import { IFileSource } from "../io/IFileSource";
+
+/**
+ * Bundle 二进制格式（小端）
+ *
+ * Header（16 字节）
+ *   magic        u32  'TWPK'
+ *   version      u32
+ *   entryCount   u32
+ *   indexLength  u32  Index 区字节数
+ *
+ * Index（每个条目）
+ *   idLength     u16  + id（UTF-8，VirtualFileSystem 路径，不以 / 开头）
+ *   typeLength   u8   + type（UTF-8，AssetType；空串表示仅作为文件，如 .mtl / .bin）
+ *   flags        u8   BundleEntryFlags
+ *   offset       u32  相对 Data 区起点
+ *   size         u32  存储的字节数
+ *   rawSize      u32  解压后的字节数
+ *
+ * Data（起点按 4 字节对齐）
+ */
+export const BUNDLE_MAGIC = 0x4b505754;
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_HEADER_SIZE = 16;
+
+export enum BundleEntryFlags {
+    None = 0,
+    /** deflate 压缩 */
+    Compressed = 1 << 0,
+}
+
+export interface BundleEntry {
+    readonly id: string;
+    /** null 表示仅作为文件供其他 Asset 读取 */
+    readonly type: AssetType | null;
+    readonly flags: BundleEntryFlags;
+    readonly offset: number;
+    readonly size: number;
+    readonly rawSize: number;
+}
+
+/**
+ * 已解析的 Bundle
+ * - 只解析 Index，条目数据在被读取时才切片 / 解压（惰性）
+ * - 作为 IFileSource 挂载到 VirtualFileSystem，Asset 按普通路径加载
+ */
+export class AssetBundle implements IFileSource {
+    private readonly entries = new Map<string, BundleEntry>();
+
+    private constructor(
+        private readonly buffer: ArrayBuffer,
+        private readonly dataOffset: number,
+        entries: BundleEntry[]
+    ) {
+        for (const entry of entries) {
+            this.entries.set(entry.id, entry);
+        }
+    }
+
+    static parse(buffer: ArrayBuffer): AssetBundle {
+        if (buffer.byteLength < BUNDLE_HEADER_SIZE) {
+            throw new Error('Invalid asset bundle: too small');
+        }
+
+        const view = new DataView(buffer);
+        if (view.getUint32(0, true) !== BUNDLE_MAGIC) {
+            throw new Error('Invalid asset bundle: bad magic');
+        }
+        const version = view.getUint32(4, true);
+        if (version !== BUNDLE_VERSION) {
+            throw new Error(`Unsupported asset bundle version ${version}`);
+        }
+
+        const entryCount = view.getUint32(8, true);
+        const indexLength = view.getUint32(12, true);
+        const dataOffset = alignTo4(BUNDLE_HEADER_SIZE + indexLength);
+        if (dataOffset > buffer.byteLength) {
+            throw new Error('Invalid asset bundle: truncated index');
+        }
+
+        const decoder = new TextDecoder();
+        const bytes = new Uint8Array(buffer);
+        const entries: BundleEntry[] = [];
+        let cursor = BUNDLE_HEADER_SIZE;
+
+        const readString = (length: number): string => {
+            const value = decoder.decode(bytes.subarray(cursor, cursor + length));
+            cursor += length;
+            return value;
+        };
+
+        for (let i = 0; i < entryCount; i++) {
+            const idLength = view.getUint16(cursor, true);
+            cursor += 2;
+            const id = readString(idLength);
+            const typeLength = view.getUint8(cursor);
+            cursor += 1;
+            const type = readString(typeLength);
+            const flags = view.getUint8(cursor);
+            cursor += 1;
+            const offset = view.getUint32(cursor, true);
+            const size = view.getUint32(cursor + 4, true);
+            const rawSize = view.getUint32(cursor + 8, true);
+            cursor += 12;
+
+            if (dataOffset + offset + size > buffer.byteLength) {
+                throw new Error(`Invalid asset bundle: entry out of range: ${id}`);
+            }
+            entries.push({ id, type: (type || null) as AssetType | null, flags, offset, size, rawSize });
+        }
+
+        return new AssetBundle(buffer, dataOffset, entries);
+    }
+
+    getEntries(): readonly BundleEntry[] {
+        return [...this.entries.values()];
+    }
+
+    getEntry(id: string): BundleEntry | undefined {
+        return this.entries.get(id);
+    }
+
+    async read(path: string, signal?: AbortSignal): Promise<Uint8Array | null> {
+        const entry = this.entries.get(path);
+        if (!entry) {
+            return null;
+        }
+
+        const start = this.dataOffset + entry.offset;
+        const stored = new Uint8Array(this.buffer, start, entry.size);
+        if (!(entry.flags & BundleEntryFlags.Compressed)) {
+            // 直接返回视图，不复制
+            return stored;
+        }
+
+        const bytes = await transform(stored, new DecompressionStream('deflate'));
+        signal?.throwIfAborted();
+        if (bytes.byteLength !== entry.rawSize) {
+            throw new Error(`Corrupt asset bundle entry: ${entry.id}`);
+        }
+        return bytes;
+    }
+}
+
+export function alignTo4(value: number): number {
+    return (value + 3) & ~3;
+}
+
+/** 通过 (De)CompressionStream 处理一段数据 */
+export async function transform(
+    input: Uint8Array,
+    stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter();
+    writer.write(input).catch(() => { /* 错误由 readable 一侧抛出 */ });
+    writer.close().catch(() => { });
+
+    const reader = stream.readable.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        chunks.push(value);
+        length += value.byteLength;
+    }
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return output;
+}
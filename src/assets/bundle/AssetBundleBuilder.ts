@@ -0,0 +1,102 @@
+import { AssetType } from "../AssetEnums";
+import {
+    BUNDLE_HEADER_SIZE,
+    BUNDLE_MAGIC,
+    BUNDLE_VERSION,
+    BundleEntryFlags,
+    alignTo4,
+    transform,
+} from "./AssetBundle";
+
+export interface BundleFileOptions {
+    /** 默认 false；已压缩的格式（PNG / JPEG）压缩收益很小 */
+    compress?: boolean;
+}
+
+interface PendingFile {
+    id: string;
+    type: AssetType | null;
+    bytes: Uint8Array;
+    compress: boolean;
+}
+
+/**
+ * 把多个文件打包为一个 Bundle（格式见 AssetBundle）
+ *
+ * @example
+ * const builder = new AssetBundleBuilder();
+ * builder.add('/src/shaders/basic.vert.wgsl', AssetType.Shader, source, { compress: true });
+ * builder.add('/models/box.mtl', null, mtl);
+ * const buffer = await builder.build();
+ */
+export class AssetBundleBuilder {
+    private files = new Map<string, PendingFile>();
+
+    /**
+     * @param id VirtualFileSystem 路径（挂载点为 / 时即 Asset id）
+     * @param type 注册为哪类 Asset；null 表示仅作为文件（如 .mtl、glTF 的 .bin）
+     */
+    add(id: string, type: AssetType | null, content: Uint8Array | string, options: BundleFileOptions = {}): this {
+        const key = id.replace(/^\/+/, '');
+        const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+        this.files.set(key, { id: key, type, bytes, compress: options.compress ?? false });
+        return this;
+    }
+
+    async build(): Promise<ArrayBuffer> {
+        const encoder = new TextEncoder();
+        const files = [...this.files.values()];
+
+        const stored = await Promise.all(files.map(file =>
+            file.compress ? transform(file.bytes, new CompressionStream('deflate')) : file.bytes
+        ));
+
+        const ids = files.map(file => encoder.encode(file.id));
+        const types = files.map(file => encoder.encode(file.type ?? ''));
+        let indexLength = 0;
+        for (let i = 0; i < files.length; i++) {
+            if (ids[i].byteLength > 0xffff || types[i].byteLength > 0xff) {
+                throw new Error(`Bundle entry id or type too long: ${files[i].id}`);
+            }
+            indexLength += 2 + ids[i].byteLength + 1 + types[i].byteLength + 1 + 12;
+        }
+
+        const dataOffset = alignTo4(BUNDLE_HEADER_SIZE + indexLength);
+        const offsets: number[] = [];
+        let dataLength = 0;
+        for (const bytes of stored) {
+            offsets.push(dataLength);
+            dataLength = alignTo4(dataLength + bytes.byteLength);
+        }
+
+        const buffer = new ArrayBuffer(dataOffset + dataLength);
+        const view = new DataView(buffer);
+        const out = new Uint8Array(buffer);
+
+        view.setUint32(0, BUNDLE_MAGIC, true);
+        view.setUint32(4, BUNDLE_VERSION, true);
+        view.setUint32(8, files.length, true);
+        view.setUint32(12, indexLength, true);
+
+        let cursor = BUNDLE_HEADER_SIZE;
+        for (let i = 0; i < files.length; i++) {
+            view.setUint16(cursor, ids[i].byteLength, true);
+            out.set(ids[i], cursor + 2);
+            cursor += 2 + ids[i].byteLength;
+
+            view.setUint8(cursor, types[i].byteLength);
+            out.set(types[i], cursor + 1);
+            cursor += 1 + types[i].byteLength;
+
+            view.setUint8(cursor, files[i].compress ? BundleEntryFlags.Compressed : BundleEntryFlags.None);
+            view.setUint32(cursor + 1, offsets[i], true);
+            view.setUint32(cursor + 5, stored[i].byteLength, true);
+            view.setUint32(cursor + 9, files[i].bytes.byteLength, true);
+            cursor += 13;
+
+            out.set(stored[i], dataOffset + offsets[i]);
+        }
+
+        return buffer;
+    }
+}
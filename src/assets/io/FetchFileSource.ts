@@ -0,0 +1,72 @@
+import { IFileSource, ReadProgressCallback } from "./IFileSource";
+import { AssetIOError } from "../AssetErrors";
+
+// 可重试的 HTTP 状态码
+const TRANSIENT_STATUS = new Set([408, 429]);
+
+/**
+ * 通过 HTTP fetch 读取
+ */
+export class FetchFileSource implements IFileSource {
+    /**
+     * @param baseUrl 拼接在相对路径之前的 URL 前缀
+     */
+    constructor(private readonly baseUrl = '') { }
+
+    async read(path: string, signal?: AbortSignal, onProgress?: ReadProgressCallback): Promise<Uint8Array | null> {
+        const url = this.baseUrl + path;
+
+        let response: Response;
+        try {
+            response = await fetch(url, { signal });
+        } catch (err) {
+            if (signal?.aborted) {
+                throw err;
+            }
+            // 网络错误（fetch 以 TypeError reject）
+            throw new AssetIOError(url, `Network error (${(err as Error).message})`, { transient: true });
+        }
+
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            const { status } = response;
+            throw new AssetIOError(url, `HTTP ${status} ${response.statusText}`, {
+                status,
+                transient: status >= 500 || TRANSIENT_STATUS.has(status),
+            });
+        }
+        if (!onProgress || !response.body) {
+            return new Uint8Array(await response.arrayBuffer());
+        }
+        return this.readStream(response, onProgress);
+    }
+
+    /** 逐块读取并报告进度（Content-Length 缺失时 total 未知） */
+    private async readStream(response: Response, onProgress: ReadProgressCallback): Promise<Uint8Array> {
+        const header = response.headers.get('Content-Length');
+        const total = header !== null && header !== '' ? Number(header) : undefined;
+
+        const reader = response.body!.getReader();
+        const chunks: Uint8Array[] = [];
+        let loaded = 0;
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            chunks.push(value);
+            loaded += value.byteLength;
+            onProgress(loaded, total);
+        }
+
+        const bytes = new Uint8Array(loaded);
+        let offset = 0;
+        for (const chunk of chunks) {
+            bytes.set(chunk, offset);
+            offset += chunk.byteLength;
+        }
+        return bytes;
+    }
+}
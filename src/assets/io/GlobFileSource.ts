@@ -0,0 +1,50 @@
+import { IFileSource } from "./IFileSource";
+
+/** import.meta.glob 的返回值（非 eager） */
+export type GlobModules = Record<string, () => Promise<unknown>>;
+
+/**
+ * 由 Vite import.meta.glob 提供的文件（构建时打包，无需网络）
+ * - 模块值可以是字符串（?raw）、ArrayBuffer / Uint8Array，或带 default 导出的对象
+ */
+export class GlobFileSource implements IFileSource {
+    private modules = new Map<string, () => Promise<unknown>>();
+
+    /**
+     * @param modules import.meta.glob 的结果
+     * @param root glob 键中对应挂载点的前缀（如 '/src/shaders/'）
+     */
+    constructor(modules: GlobModules, root: string) {
+        for (const [key, importer] of Object.entries(modules)) {
+            // 去掉 ?raw 等查询参数
+            const path = key.replace(/\?.*$/, '');
+            if (path.startsWith(root)) {
+                this.modules.set(path.substring(root.length), importer);
+            }
+        }
+    }
+
+    async read(path: string, signal?: AbortSignal): Promise<Uint8Array | null> {
+        const importer = this.modules.get(path);
+        if (!importer) {
+            return null;
+        }
+
+        let value = await importer();
+        signal?.throwIfAborted();
+        if (value !== null && typeof value === 'object' && 'default' in value) {
+            value = (value as { default: unknown }).default;
+        }
+
+        if (typeof value === 'string') {
+            return new TextEncoder().encode(value);
+        }
+        if (value instanceof Uint8Array) {
+            return value;
+        }
+        if (value instanceof ArrayBuffer) {
+            return new Uint8Array(value);
+        }
+        throw new Error(`Unsupported glob module content: ${path}`);
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * 文件变化通知
+ * - content 为变化后的内容（可选）；缺省时从原挂载点重新读取
+ */
+export interface FileChange {
+    /** 绝对路径（以 / 开头，与 VirtualFileSystem 一致） */
+    path: string;
+    content?: string | Uint8Array;
+}
+
+export type FileChangeListener = (change: FileChange) => void;
+
+/**
+ * 文件变化来源（Vite HMR / 测试中手动触发）
+ */
+export interface IFileChangeSource {
+    /**
+     * @returns 取消订阅的函数
+     */
+    subscribe(listener: FileChangeListener): () => void;
+}
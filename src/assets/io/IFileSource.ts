@@ -0,0 +1,20 @@
+/**
+ * 读取进度回调
+ * @param loaded 已读取字节数
+ * @param total 总字节数（未知时为 undefined）
+ */
+export type ReadProgressCallback = (loaded: number, total: number | undefined) => void;
+
+/**
+ * 文件来源（挂载到 VirtualFileSystem 的某个挂载点下）
+ */
+export interface IFileSource {
+    /**
+     * 读取文件内容
+     * @param path 相对挂载点的路径（不以 / 开头）
+     * @param signal 取消时以 AbortError 结束
+     * @param onProgress 可选的流式进度（不支持时可忽略，完成后由 VirtualFileSystem 补报）
+     * @returns 文件不存在时返回 null（VirtualFileSystem 继续尝试其他挂载点）
+     */
+    read(path: string, signal?: AbortSignal, onProgress?: ReadProgressCallback): Promise<Uint8Array | null>;
+}
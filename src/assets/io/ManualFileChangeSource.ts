@@ -0,0 +1,22 @@
+import { FileChange, FileChangeListener, IFileChangeSource } from "./IFileChangeSource";
+
+/**
+ * 手动触发的文件变化（单元测试 / 编辑器工具）
+ */
+export class ManualFileChangeSource implements IFileChangeSource {
+    private listeners = new Set<FileChangeListener>();
+
+    subscribe(listener: FileChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    notify(path: string, content?: string | Uint8Array): void {
+        const change: FileChange = { path, content };
+        for (const listener of [...this.listeners]) {
+            listener(change);
+        }
+    }
+}
@@ -0,0 +1,35 @@
+import { IFileSource } from "./IFileSource";
+
+/**
+ * 内存中的文件表（单元测试 / 运行时生成的资源）
+ */
+export class MemoryFileSource implements IFileSource {
+    private files = new Map<string, Uint8Array>();
+
+    /**
+     * @param files 初始文件，键为相对挂载点的路径
+     */
+    constructor(files: Record<string, string | Uint8Array> = {}) {
+        for (const [path, content] of Object.entries(files)) {
+            this.set(path, content);
+        }
+    }
+
+    set(path: string, content: string | Uint8Array): void {
+        const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+        this.files.set(trimLeadingSlash(path), bytes);
+    }
+
+    delete(path: string): boolean {
+        return this.files.delete(trimLeadingSlash(path));
+    }
+
+    async read(path: string, signal?: AbortSignal): Promise<Uint8Array | null> {
+        signal?.throwIfAborted();
+        return this.files.get(path) ?? null;
+    }
+}
+
+function trimLeadingSlash(path: string): string {
+    return path.replace(/^\/+/, '');
+}
@@ -0,0 +1,36 @@
+import { IFileSource } from "./IFileSource";
+
+/** 与 fs.promises.readFile 兼容的读取函数 */
+export type ReadFile = (path: string) => Promise<Uint8Array>;
+
+/**
+ * 通过 Node fs 读取本地目录（单元测试中无网络加载资源）
+ * - readFile 由调用方注入，浏览器构建不依赖 Node 模块
+ *
+ * @example
+ * fileSystem.mount('/', new NodeFileSource(process.cwd(), fs.promises.readFile));
+ */
+export class NodeFileSource implements IFileSource {
+    /**
+     * @param root 本地根目录
+     * @param readFile 通常为 fs.promises.readFile
+     */
+    constructor(
+        private readonly root: string,
+        private readonly readFile: ReadFile
+    ) { }
+
+    async read(path: string, signal?: AbortSignal): Promise<Uint8Array | null> {
+        const file = `${this.root.replace(/\/+$/, '')}/${path}`;
+        try {
+            const bytes = new Uint8Array(await this.readFile(file));
+            signal?.throwIfAborted();
+            return bytes;
+        } catch (err) {
+            if ((err as { code?: string }).code === 'ENOENT') {
+                return null;
+            }
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,174 @@
+import { IFileSource } from "./IFileSource";
+import { FetchFileSource } from "./FetchFileSource";
+import { AssetIOError } from "../AssetErrors";
+
+/**
+ * 文件读取进度
+ * - done 为 true 时 loaded 即文件大小
+ */
+export interface FileReadProgress {
+    path: string;
+    loaded: number;
+    total: number | undefined;
+    done: boolean;
+}
+
+export type FileReadListener = (progress: FileReadProgress) => void;
+
+interface Mount {
+    prefix: string;
+    source: IFileSource;
+}
+
+// 带协议的 URL（http:、blob: 等）
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * 虚拟文件系统
+ * - 所有 Asset 以统一的绝对路径（以 / 开头）访问文件
+ * - 挂载点按前缀匹配，最长前缀优先；同一前缀后挂载的优先
+ * - data: URI 直接解码；其他带协议的 URL 直接 fetch
+ */
+export class VirtualFileSystem {
+    private mounts: Mount[] = [];
+    private readonly urlSource = new FetchFileSource();
+    private readListeners = new Set<FileReadListener>();
+
+    /**
+     * @param prefix 挂载点（如 '/'、'/src/shaders/'）
+     */
+    mount(prefix: string, source: IFileSource): void {
+        const normalized = VirtualFileSystem.normalize(prefix).replace(/\/?$/, '/');
+        this.mounts.unshift({ prefix: normalized, source });
+        // 稳定排序：长前缀在前，同长度保持后挂载在前
+        this.mounts.sort((a, b) => b.prefix.length - a.prefix.length);
+    }
+
+    unmount(prefix: string, source?: IFileSource): void {
+        const normalized = VirtualFileSystem.normalize(prefix).replace(/\/?$/, '/');
+        this.mounts = this.mounts.filter(m =>
+            m.prefix !== normalized || (source !== undefined && m.source !== source)
+        );
+    }
+
+    /**
+     * 订阅文件读取进度（加载进度条统计下载字节数）
+     * @returns 取消订阅的函数
+     */
+    onRead(listener: FileReadListener): () => void {
+        this.readListeners.add(listener);
+        return () => {
+            this.readListeners.delete(listener);
+        };
+    }
+
+    /**
+     * 解析为绝对路径
+     * @param path 绝对路径、URL，或相对 base 的路径
+     * @param base 相对路径的基准（文件路径取其所在目录）
+     */
+    resolve(path: string, base = '/'): string {
+        if (URL_SCHEME.test(path)) {
+            return path;
+        }
+        if (path.startsWith('/')) {
+            return VirtualFileSystem.normalize(path);
+        }
+        if (URL_SCHEME.test(base)) {
+            return new URL(path, base).href;
+        }
+        const directory = base.substring(0, base.lastIndexOf('/') + 1);
+        return VirtualFileSystem.normalize(directory + path);
+    }
+
+    /**
+     * @param signal 取消时以 AbortError 结束
+     */
+    async readBytes(path: string, signal?: AbortSignal): Promise<Uint8Array> {
+        signal?.throwIfAborted();
+        const resolved = this.resolve(path);
+
+        const bytes = await this.readResolved(resolved, signal);
+        // data: URI 为内嵌数据，不计入读取进度
+        if (!resolved.startsWith('data:')) {
+            this.emitRead({ path: resolved, loaded: bytes.byteLength, total: bytes.byteLength, done: true });
+        }
+        return bytes;
+    }
+
+    async readText(path: string, signal?: AbortSignal): Promise<string> {
+        return new TextDecoder().decode(await this.readBytes(path, signal));
+    }
+
+    private async readResolved(resolved: string, signal?: AbortSignal): Promise<Uint8Array> {
+        const onProgress = this.readListeners.size > 0
+            ? (loaded: number, total: number | undefined) =>
+                this.emitRead({ path: resolved, loaded, total, done: false })
+            : undefined;
+
+        if (resolved.startsWith('data:')) {
+            return decodeDataUri(resolved);
+        }
+        if (URL_SCHEME.test(resolved)) {
+            const bytes = await this.urlSource.read(resolved, signal, onProgress);
+            if (!bytes) {
+                throw new AssetIOError(resolved, 'File not found', { status: 404 });
+            }
+            return bytes;
+        }
+
+        for (const { prefix, source } of this.mounts) {
+            if (!resolved.startsWith(prefix)) {
+                continue;
+            }
+            const bytes = await source.read(resolved.substring(prefix.length), signal, onProgress);
+            if (bytes) {
+                return bytes;
+            }
+        }
+        throw new AssetIOError(resolved, 'File not found', { status: 404 });
+    }
+
+    private emitRead(progress: FileReadProgress): void {
+        for (const listener of [...this.readListeners]) {
+            try {
+                listener(progress);
+            } catch (err) {
+                console.error(`File read listener failed (${progress.path}):`, err);
+            }
+        }
+    }
+
+    /** 折叠 . / .. 与重复的 /，结果以 / 开头 */
+    private static normalize(path: string): string {
+        const parts: string[] = [];
+        for (const part of path.split('/')) {
+            if (part === '' || part === '.') {
+                continue;
+            }
+            if (part === '..') {
+                parts.pop();
+            } else {
+                parts.push(part);
+            }
+        }
+        const trailing = path.endsWith('/') && parts.length > 0 ? '/' : '';
+        return '/' + parts.join('/') + trailing;
+    }
+}
+
+function decodeDataUri(uri: string): Uint8Array {
+    const comma = uri.indexOf(',');
+    const header = uri.substring(0, comma);
+    const payload = uri.substring(comma + 1);
+
+    if (header.endsWith(';base64')) {
+        const binary = atob(payload);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    }
+    return new TextEncoder().encode(decodeURIComponent(payload));
+}
@@ -0,0 +1,60 @@
+import { FileChange, FileChangeListener, IFileChangeSource } from "./IFileChangeSource";
+
+/** vite.config.ts 中 wgsl 热更新插件发送的自定义事件 */
+export const WGSL_UPDATE_EVENT = 'wgsl-update';
+
+interface ViteHotContext {
+    on(event: string, callback: (data: unknown) => void): void;
+    off?(event: string, callback: (data: unknown) => void): void;
+}
+
+/** 插件发送的数据：相对项目根的路径（以 / 开头）与新的源码 */
+interface WgslUpdatePayload {
+    path: string;
+    source?: string;
+}
+
+function isWgslUpdatePayload(data: unknown): data is WgslUpdatePayload {
+    if (typeof data !== 'object' || data === null) {
+        return false;
+    }
+    const { path, source } = data as Record<string, unknown>;
+    return typeof path === 'string' && (source === undefined || typeof source === 'string');
+}
+
+/**
+ * Vite HMR 推送的文件变化
+ * - 非开发服务器环境（生产构建）下不会产生任何通知
+ */
+export class ViteFileChangeSource implements IFileChangeSource {
+    private readonly hot: ViteHotContext | undefined;
+
+    constructor() {
+        // @ts-ignore - import.meta.hot 是 Vite 的特殊功能，TypeScript 不识别
+        this.hot = import.meta.hot as ViteHotContext | undefined;
+    }
+
+    get available(): boolean {
+        return this.hot !== undefined;
+    }
+
+    subscribe(listener: FileChangeListener): () => void {
+        const hot = this.hot;
+        if (!hot) {
+            return () => { };
+        }
+
+        const callback = (data: unknown) => {
+            if (!isWgslUpdatePayload(data)) {
+                console.warn(`Ignoring malformed ${WGSL_UPDATE_EVENT} event:`, data);
+                return;
+            }
+            const change: FileChange = { path: data.path, content: data.source };
+            listener(change);
+        };
+        hot.on(WGSL_UPDATE_EVENT, callback);
+        return () => {
+            hot.off?.(WGSL_UPDATE_EVENT, callback);
+        };
+    }
+}
@@ -0,0 +1,64 @@
+import { AssetType } from "../AssetEnums";
+import { IAssetLoader } from "./IAssetLoader";
+
+/**
+ * Loader 注册表：按 AssetType + 扩展名查找 Loader
+ * - 后注册的优先（可覆盖内置 Loader）
+ * - 扩展名无法匹配时（如 data: URI）使用该类型最先注册的 Loader
+ */
+export class AssetLoaderRegistry {
+    private loaders = new Map<AssetType, IAssetLoader[]>();
+
+    register(loader: IAssetLoader): void {
+        const list = this.loaders.get(loader.type) ?? [];
+        list.push(loader);
+        this.loaders.set(loader.type, list);
+    }
+
+    unregister(loader: IAssetLoader): void {
+        const list = this.loaders.get(loader.type);
+        const index = list?.indexOf(loader) ?? -1;
+        if (list && index >= 0) {
+            list.splice(index, 1);
+        }
+    }
+
+    get<TResult>(type: AssetType, path: string): IAssetLoader<TResult> {
+        const list = this.loaders.get(type) ?? [];
+        const extension = AssetLoaderRegistry.extensionOf(path);
+
+        for (let i = list.length - 1; i >= 0; i--) {
+            if (list[i].extensions.includes(extension)) {
+                return list[i] as IAssetLoader<TResult>;
+            }
+        }
+        if (list.length > 0) {
+            return list[0] as IAssetLoader<TResult>;
+        }
+        throw new Error(`No ${type} loader registered for: ${path}`);
+    }
+
+    /** 仅按扩展名查找（用于由路径推断 AssetType） */
+    findByExtension(path: string): IAssetLoader | undefined {
+        const extension = AssetLoaderRegistry.extensionOf(path);
+        for (const list of this.loaders.values()) {
+            for (let i = list.length - 1; i >= 0; i--) {
+                if (list[i].extensions.includes(extension)) {
+                    return list[i];
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /** 小写扩展名（含 .），忽略查询参数与片段 */
+    private static extensionOf(path: string): string {
+        if (path.startsWith('data:')) {
+            return '';
+        }
+        const clean = path.replace(/[?#].*$/, '');
+        const name = clean.substring(clean.lastIndexOf('/') + 1);
+        const dot = name.lastIndexOf('.');
+        return dot >= 0 ? name.substring(dot).toLowerCase() : '';
+    }
+}
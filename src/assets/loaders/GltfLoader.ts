@@ -0,0 +1,553 @@
+import { mat4 } from "gl-matrix";
+import { ModelData, ModelNode } from "../asset_types/ModelAsset";
+import {
+    MeshAsset,
+    STANDARD_VERTEX_LAYOUT,
+    SubMesh,
+    createIndexArray,
+    interleaveStandardVertices,
+} from "../asset_types/MeshAsset";
+import { AlphaMode, MaterialAsset, createMaterialData } from "../asset_types/MaterialAsset";
+import { TextureAsset, TextureColorSpace } from "../asset_types/TextureAsset";
+import { AssetType } from "../AssetEnums";
+import { VirtualFileSystem } from "../io/VirtualFileSystem";
+import { AssetLoadContext, IAssetLoader } from "./IAssetLoader";
+
+//#region glTF JSON（只声明用到的字段）
+interface GltfTextureInfo {
+    index: number;
+    texCoord?: number;
+}
+
+interface GltfAccessorSparse {
+    count: number;
+    indices: { bufferView: number; byteOffset?: number; componentType: number };
+    values: { bufferView: number; byteOffset?: number };
+}
+
+interface GltfAccessor {
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    normalized?: boolean;
+    count: number;
+    type: string;
+    sparse?: GltfAccessorSparse;
+}
+
+interface GltfPrimitive {
+    attributes: Record<string, number>;
+    indices?: number;
+    material?: number;
+    mode?: number;
+}
+
+interface GltfJson {
+    asset: { version: string };
+    extensionsRequired?: string[];
+    scene?: number;
+    scenes?: { nodes?: number[] }[];
+    nodes?: {
+        name?: string;
+        mesh?: number;
+        children?: number[];
+        matrix?: number[];
+        translation?: number[];
+        rotation?: number[];
+        scale?: number[];
+    }[];
+    meshes?: { name?: string; primitives: GltfPrimitive[] }[];
+    accessors?: GltfAccessor[];
+    bufferViews?: { buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }[];
+    buffers?: { uri?: string; byteLength: number }[];
+    materials?: {
+        name?: string;
+        pbrMetallicRoughness?: {
+            baseColorFactor?: number[];
+            baseColorTexture?: GltfTextureInfo;
+            metallicFactor?: number;
+            roughnessFactor?: number;
+            metallicRoughnessTexture?: GltfTextureInfo;
+        };
+        normalTexture?: GltfTextureInfo;
+        occlusionTexture?: GltfTextureInfo;
+        emissiveTexture?: GltfTextureInfo;
+        emissiveFactor?: number[];
+        alphaMode?: string;
+        alphaCutoff?: number;
+        doubleSided?: boolean;
+    }[];
+    textures?: { source?: number }[];
+    images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+}
+//#endregion
+
+const GLB_MAGIC = 0x46546c67;       // 'glTF'
+const GLB_CHUNK_JSON = 0x4e4f534a;  // 'JSON'
+const GLB_CHUNK_BIN = 0x004e4942;   // 'BIN\0'
+
+const COMPONENT_SIZES: Record<number, number> = {
+    5120: 1, // BYTE
+    5121: 1, // UNSIGNED_BYTE
+    5122: 2, // SHORT
+    5123: 2, // UNSIGNED_SHORT
+    5125: 4, // UNSIGNED_INT
+    5126: 4, // FLOAT
+};
+
+const TYPE_COMPONENTS: Record<string, number> = {
+    SCALAR: 1,
+    VEC2: 2,
+    VEC3: 3,
+    VEC4: 4,
+    MAT4: 16,
+};
+
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+type NumericArray = Float32Array | Uint32Array;
+
+/**
+ * glTF 2.0 导入器
+ * - 支持 .gltf（JSON + 外部 / data URI buffer）与 .glb
+ * - 支持 byteStride、sparse accessor、uint8/uint16/uint32 索引
+ * - 每个 glTF mesh 产出一个 MeshAsset，每个 primitive 对应一个 SubMesh
+ */
+class GltfImporter {
+    private readonly url: string;
+
+    private json!: GltfJson;
+    private buffers: Uint8Array[] = [];
+
+    private textures = new Map<string, TextureAsset>();
+    private materials: MaterialAsset[] = [];
+
+    constructor(
+        url: string,
+        private readonly fileSystem: VirtualFileSystem,
+        private readonly signal?: AbortSignal
+    ) {
+        this.url = url;
+    }
+
+    async load(): Promise<ModelData> {
+        const bytes = await this.fileSystem.readBytes(this.url, this.signal);
+
+        let binChunk: Uint8Array | null = null;
+        if (this.isGlb(bytes)) {
+            const chunks = this.parseGlb(bytes);
+            this.json = chunks.json;
+            binChunk = chunks.bin;
+        } else {
+            this.json = JSON.parse(new TextDecoder().decode(bytes));
+        }
+
+        this.validate();
+        await this.loadBuffers(binChunk);
+
+        this.materials = (this.json.materials ?? []).map((_, i) => this.buildMaterial(i));
+        const meshes = (this.json.meshes ?? []).map((_, i) => this.buildMesh(i));
+        const nodes = this.buildNodes(meshes);
+
+        return {
+            nodes,
+            roots: this.findRoots(),
+            meshes,
+            materials: this.materials,
+            textures: [...this.textures.values()],
+        };
+    }
+
+    //#region 容器解析
+    private isGlb(bytes: Uint8Array): boolean {
+        return bytes.byteLength >= 12 &&
+            new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === GLB_MAGIC;
+    }
+
+    private parseGlb(bytes: Uint8Array): { json: GltfJson; bin: Uint8Array | null } {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const version = view.getUint32(4, true);
+        if (version !== 2) {
+            throw new Error(`Unsupported GLB version ${version}: ${this.url}`);
+        }
+        const length = Math.min(view.getUint32(8, true), bytes.byteLength);
+
+        let json: GltfJson | null = null;
+        let bin: Uint8Array | null = null;
+
+        let offset = 12;
+        while (offset + 8 <= length) {
+            const chunkLength = view.getUint32(offset, true);
+            const chunkType = view.getUint32(offset + 4, true);
+            const chunk = bytes.subarray(offset + 8, offset + 8 + chunkLength);
+
+            if (chunkType === GLB_CHUNK_JSON) {
+                json = JSON.parse(new TextDecoder().decode(chunk));
+            } else if (chunkType === GLB_CHUNK_BIN && !bin) {
+                bin = chunk;
+            }
+            // 未知 chunk 按规范忽略
+            offset += 8 + chunkLength;
+        }
+
+        if (!json) {
+            throw new Error(`GLB has no JSON chunk: ${this.url}`);
+        }
+        return { json, bin };
+    }
+
+    private validate(): void {
+        const version = this.json.asset?.version;
+        if (!version || !version.startsWith('2.')) {
+            throw new Error(`Unsupported glTF version ${version}: ${this.url}`);
+        }
+        if (this.json.extensionsRequired?.length) {
+            throw new Error(
+                `Unsupported glTF extension(s) ${this.json.extensionsRequired.join(', ')}: ${this.url}`
+            );
+        }
+    }
+
+    private async loadBuffers(binChunk: Uint8Array | null): Promise<void> {
+        this.buffers = await Promise.all((this.json.buffers ?? []).map(async (buffer, i) => {
+            if (buffer.uri === undefined) {
+                // GLB 中第一个无 uri 的 buffer 指向 BIN chunk
+                if (!binChunk) {
+                    throw new Error(`glTF buffer ${i} has no data: ${this.url}`);
+                }
+                return binChunk;
+            }
+            return this.fileSystem.readBytes(this.resolveUri(buffer.uri), this.signal);
+        }));
+    }
+
+    private resolveUri(uri: string): string {
+        return this.fileSystem.resolve(uri, this.url);
+    }
+    //#endregion
+
+    //#region Accessor
+    /**
+     * 读取 accessor 为紧密排列的数组
+     * - 处理 byteStride、normalized 与 sparse 替换
+     */
+    private readAccessor(index: number): Float32Array;
+    private readAccessor<T extends NumericArray>(index: number, ArrayType: { new(length: number): T }): T;
+    private readAccessor(
+        index: number,
+        ArrayType: { new(length: number): NumericArray } = Float32Array
+    ): NumericArray {
+        const accessor = this.json.accessors?.[index];
+        if (!accessor) {
+            throw new Error(`glTF accessor ${index} not found: ${this.url}`);
+        }
+
+        const components = TYPE_COMPONENTS[accessor.type];
+        if (!components) {
+            throw new Error(`Unsupported glTF accessor type ${accessor.type}: ${this.url}`);
+        }
+
+        const out = new ArrayType(accessor.count * components);
+        const normalized = accessor.normalized ?? false;
+
+        // 没有 bufferView 时初值为 0（通常配合 sparse 使用）
+        if (accessor.bufferView !== undefined) {
+            this.readElements(
+                accessor.bufferView, accessor.byteOffset ?? 0,
+                accessor.componentType, normalized, components, accessor.count, out
+            );
+        }
+
+        if (accessor.sparse) {
+            const { count, indices, values } = accessor.sparse;
+            const targets = new Uint32Array(count);
+            this.readElements(indices.bufferView, indices.byteOffset ?? 0, indices.componentType, false, 1, count, targets);
+
+            const replacements = new ArrayType(count * components);
+            this.readElements(
+                values.bufferView, values.byteOffset ?? 0,
+                accessor.componentType, normalized, components, count, replacements
+            );
+
+            for (let i = 0; i < count; i++) {
+                out.set(replacements.subarray(i * components, (i + 1) * components), targets[i] * components);
+            }
+        }
+
+        return out;
+    }
+
+    private readElements(
+        bufferViewIndex: number,
+        byteOffset: number,
+        componentType: number,
+        normalized: boolean,
+        components: number,
+        count: number,
+        out: NumericArray
+    ): void {
+        const bufferView = this.json.bufferViews?.[bufferViewIndex];
+        if (!bufferView) {
+            throw new Error(`glTF bufferView ${bufferViewIndex} not found: ${this.url}`);
+        }
+        const componentSize = COMPONENT_SIZES[componentType];
+        if (!componentSize) {
+            throw new Error(`Unsupported glTF componentType ${componentType}: ${this.url}`);
+        }
+
+        const bytes = this.buffers[bufferView.buffer];
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const stride = bufferView.byteStride ?? componentSize * components;
+        const base = (bufferView.byteOffset ?? 0) + byteOffset;
+
+        for (let i = 0; i < count; i++) {
+            const elementOffset = base + i * stride;
+            for (let c = 0; c < components; c++) {
+                out[i * components + c] = this.readComponent(
+                    view, elementOffset + c * componentSize, componentType, normalized
+                );
+            }
+        }
+    }
+
+    private readComponent(view: DataView, offset: number, componentType: number, normalized: boolean): number {
+        switch (componentType) {
+            case 5126:
+                return view.getFloat32(offset, true);
+            case 5125:
+                return view.getUint32(offset, true);
+            case 5123: {
+                const v = view.getUint16(offset, true);
+                return normalized ? v / 65535 : v;
+            }
+            case 5122: {
+                const v = view.getInt16(offset, true);
+                return normalized ? Math.max(v / 32767, -1) : v;
+            }
+            case 5121: {
+                const v = view.getUint8(offset);
+                return normalized ? v / 255 : v;
+            }
+            case 5120: {
+                const v = view.getInt8(offset);
+                return normalized ? Math.max(v / 127, -1) : v;
+            }
+            default:
+                throw new Error(`Unsupported glTF componentType ${componentType}: ${this.url}`);
+        }
+    }
+    //#endregion
+
+    //#region 资产构建
+    private getTexture(info: GltfTextureInfo | undefined, colorSpace: TextureColorSpace): TextureAsset | null {
+        if (!info) {
+            return null;
+        }
+        const source = this.json.textures?.[info.index]?.source;
+        const image = source !== undefined ? this.json.images?.[source] : undefined;
+        if (source === undefined || !image) {
+            return null;
+        }
+
+        // 同一张图片可能既作颜色贴图又作数据贴图，按颜色空间区分
+        const key = `${source}:${colorSpace}`;
+        const cached = this.textures.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const id = `${this.url}#image${source}${colorSpace === 'linear' ? ':linear' : ''}`;
+        let texture: TextureAsset;
+        if (image.uri !== undefined) {
+            texture = new TextureAsset(this.resolveUri(image.uri), { colorSpace, id });
+        } else if (image.bufferView !== undefined) {
+            const bufferView = this.json.bufferViews![image.bufferView];
+            const offset = bufferView.byteOffset ?? 0;
+            const bytes = this.buffers[bufferView.buffer].subarray(offset, offset + bufferView.byteLength);
+            texture = TextureAsset.fromBytes(id, bytes, { colorSpace });
+        } else {
+            return null;
+        }
+
+        this.textures.set(key, texture);
+        return texture;
+    }
+
+    private buildMaterial(index: number): MaterialAsset {
+        const material = this.json.materials![index];
+        const pbr = material.pbrMetallicRoughness ?? {};
+
+        const data = createMaterialData({
+            name: material.name ?? `material${index}`,
+            baseColorFactor: (pbr.baseColorFactor ?? [1, 1, 1, 1]) as [number, number, number, number],
+            baseColorTexture: this.getTexture(pbr.baseColorTexture, 'srgb'),
+            metallicFactor: pbr.metallicFactor ?? 1,
+            roughnessFactor: pbr.roughnessFactor ?? 1,
+            metallicRoughnessTexture: this.getTexture(pbr.metallicRoughnessTexture, 'linear'),
+            normalTexture: this.getTexture(material.normalTexture, 'linear'),
+            occlusionTexture: this.getTexture(material.occlusionTexture, 'linear'),
+            emissiveFactor: (material.emissiveFactor ?? [0, 0, 0]) as [number, number, number],
+            emissiveTexture: this.getTexture(material.emissiveTexture, 'srgb'),
+            alphaMode: (material.alphaMode ?? 'OPAQUE').toLowerCase() as AlphaMode,
+            alphaCutoff: material.alphaCutoff ?? 0.5,
+            doubleSided: material.doubleSided ?? false,
+        });
+
+        return new MaterialAsset(`${this.url}#material${index}`, data);
+    }
+
+    /**
+     * 合并一个 glTF mesh 的所有 primitive
+     * - 统一转换为 STANDARD_VERTEX_LAYOUT
+     * - 每个 primitive 成为一个 SubMesh
+     */
+    private buildMesh(index: number): MeshAsset {
+        const gltfMesh = this.json.meshes![index];
+
+        const vertexChunks: Float32Array[] = [];
+        const indices: number[] = [];
+        const subMeshes: SubMesh[] = [];
+        let vertexCount = 0;
+
+        for (const primitive of gltfMesh.primitives) {
+            const mode = primitive.mode ?? MODE_TRIANGLES;
+            if (mode !== MODE_TRIANGLES && mode !== MODE_TRIANGLE_STRIP && mode !== MODE_TRIANGLE_FAN) {
+                console.warn(`Skipping glTF primitive with unsupported mode ${mode}: ${this.url}`);
+                continue;
+            }
+
+            const { POSITION, NORMAL, TEXCOORD_0, COLOR_0 } = primitive.attributes;
+            if (POSITION === undefined) {
+                continue;
+            }
+
+            const positions = this.readAccessor(POSITION);
+            const count = positions.length / 3;
+
+            const local = primitive.indices !== undefined
+                ? this.readAccessor(primitive.indices, Uint32Array)
+                : Uint32Array.from({ length: count }, (_, i) => i);
+            const triangles = this.toTriangleList(local, mode);
+
+            subMeshes.push({
+                firstIndex: indices.length,
+                indexCount: triangles.length,
+                material: primitive.material !== undefined ? this.materials[primitive.material] : null,
+            });
+            for (let i = 0; i < triangles.length; i++) {
+                indices.push(triangles[i] + vertexCount);
+            }
+
+            vertexChunks.push(interleaveStandardVertices({
+                positions,
+                normals: NORMAL !== undefined ? this.readAccessor(NORMAL) : null,
+                uvs: TEXCOORD_0 !== undefined ? this.readAccessor(TEXCOORD_0) : null,
+                colors: COLOR_0 !== undefined ? this.readColors(COLOR_0) : null,
+            }));
+            vertexCount += count;
+        }
+
+        const vertices = new Float32Array(vertexCount * 12);
+        let offset = 0;
+        for (const chunk of vertexChunks) {
+            vertices.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        return new MeshAsset(`${this.url}#mesh${index}`, {
+            vertices,
+            vertexCount,
+            layout: STANDARD_VERTEX_LAYOUT,
+            indices: createIndexArray(indices, vertexCount),
+            subMeshes,
+        });
+    }
+
+    /** COLOR_0 可能是 VEC3，统一扩展为 RGBA */
+    private readColors(index: number): Float32Array {
+        const colors = this.readAccessor(index);
+        if (this.json.accessors![index].type !== 'VEC3') {
+            return colors;
+        }
+        const count = colors.length / 3;
+        const rgba = new Float32Array(count * 4);
+        for (let i = 0; i < count; i++) {
+            rgba[i * 4] = colors[i * 3];
+            rgba[i * 4 + 1] = colors[i * 3 + 1];
+            rgba[i * 4 + 2] = colors[i * 3 + 2];
+            rgba[i * 4 + 3] = 1;
+        }
+        return rgba;
+    }
+
+    private toTriangleList(indices: Uint32Array, mode: number): Uint32Array {
+        if (mode === MODE_TRIANGLES) {
+            return indices;
+        }
+
+        const triangleCount = Math.max(indices.length - 2, 0);
+        const out = new Uint32Array(triangleCount * 3);
+        for (let i = 0; i < triangleCount; i++) {
+            if (mode === MODE_TRIANGLE_FAN) {
+                out.set([indices[0], indices[i + 1], indices[i + 2]], i * 3);
+            } else if (i % 2 === 0) {
+                out.set([indices[i], indices[i + 1], indices[i + 2]], i * 3);
+            } else {
+                // strip 奇数三角形翻转顶点顺序以保持绕序
+                out.set([indices[i + 1], indices[i], indices[i + 2]], i * 3);
+            }
+        }
+        return out;
+    }
+
+    private buildNodes(meshes: MeshAsset[]): ModelNode[] {
+        return (this.json.nodes ?? []).map((node, i) => {
+            let matrix: mat4;
+            if (node.matrix) {
+                matrix = mat4.clone(node.matrix as unknown as mat4);
+            } else {
+                matrix = mat4.fromRotationTranslationScale(
+                    mat4.create(),
+                    (node.rotation ?? [0, 0, 0, 1]) as [number, number, number, number],
+                    (node.translation ?? [0, 0, 0]) as [number, number, number],
+                    (node.scale ?? [1, 1, 1]) as [number, number, number]
+                );
+            }
+
+            return {
+                name: node.name ?? `node${i}`,
+                matrix,
+                mesh: node.mesh !== undefined ? meshes[node.mesh] : null,
+                children: node.children ?? [],
+            };
+        });
+    }
+
+    private findRoots(): number[] {
+        const scenes = this.json.scenes ?? [];
+        const scene = scenes[this.json.scene ?? 0];
+        if (scene) {
+            return scene.nodes ?? [];
+        }
+
+        // 没有 scene 时，所有不被引用为子节点的节点都是根
+        const nodes = this.json.nodes ?? [];
+        const children = new Set(nodes.flatMap(node => node.children ?? []));
+        return nodes.map((_, i) => i).filter(i => !children.has(i));
+    }
+    //#endregion
+}
+
+/**
+ * glTF 2.0 模型 Loader（AssetType.Model）
+ */
+export class GltfLoader implements IAssetLoader<ModelData> {
+    readonly type = AssetType.Model;
+    readonly extensions = ['.gltf', '.glb'];
+
+    load(path: string, context: AssetLoadContext, signal?: AbortSignal): Promise<ModelData> {
+        return new GltfImporter(path, context.fileSystem, signal).load();
+    }
+}
@@ -0,0 +1,27 @@
+import { AssetType } from "../AssetEnums";
+import { VirtualFileSystem } from "../io/VirtualFileSystem";
+import type { AssetLoaderRegistry } from "./AssetLoaderRegistry";
+
+/**
+ * 加载时可用的环境（由 AssetManager 传给 Asset.load）
+ */
+export interface AssetLoadContext {
+    readonly fileSystem: VirtualFileSystem;
+    readonly loaders: AssetLoaderRegistry;
+}
+
+/**
+ * 把文件解析为某类 Asset 的 CPU 数据
+ * - 只通过 context.fileSystem 读取文件，不直接 fetch
+ */
+export interface IAssetLoader<TResult = unknown> {
+    readonly type: AssetType;
+    /** 支持的扩展名（小写，含 .） */
+    readonly extensions: readonly string[];
+
+    /**
+     * @param path VirtualFileSystem 中的绝对路径或 URL
+     * @param signal 取消时以 AbortError 结束
+     */
+    load(path: string, context: AssetLoadContext, signal?: AbortSignal): Promise<TResult>;
+}
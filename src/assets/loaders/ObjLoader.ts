@@ -0,0 +1,316 @@
+import {
+    MeshData,
+    STANDARD_VERTEX_LAYOUT,
+    SubMesh,
+    createIndexArray,
+    interleaveStandardVertices,
+} from "../asset_types/MeshAsset";
+import { MaterialAsset, createMaterialData } from "../asset_types/MaterialAsset";
+import { TextureAsset } from "../asset_types/TextureAsset";
+import { AssetType } from "../AssetEnums";
+import { VirtualFileSystem } from "../io/VirtualFileSystem";
+import { AssetLoadContext, IAssetLoader } from "./IAssetLoader";
+
+export interface ObjLoadResult {
+    data: MeshData;
+    materials: MaterialAsset[];
+    textures: TextureAsset[];
+}
+
+/** 同一材质的面（usemtl 之后到下一个 usemtl 之前） */
+interface MaterialGroup {
+    material: MaterialAsset | null;
+    indices: number[];
+}
+
+/**
+ * Wavefront OBJ / MTL 导入器
+ * - 支持 v / vt / vn / f（含负索引）与 n 边形扇形三角化
+ * - 以 "v/vt/vn" 组合去重，生成索引缓冲区
+ * - 按 usemtl 拆分为子网格，MTL 材质转换为 MaterialAsset
+ */
+class ObjImporter {
+    private readonly url: string;
+    private readonly baseUrl: string;
+
+    private materials = new Map<string, MaterialAsset>();
+    private textures = new Map<string, TextureAsset>();
+
+    constructor(
+        url: string,
+        private readonly fileSystem: VirtualFileSystem,
+        private readonly signal?: AbortSignal
+    ) {
+        this.url = url;
+        this.baseUrl = url.substring(0, url.lastIndexOf('/') + 1);
+    }
+
+    async load(): Promise<ObjLoadResult> {
+        const source = await this.fileSystem.readText(this.url, this.signal);
+
+        // 先加载所有 MTL，usemtl 才能解析到材质
+        const libraries = source.match(/^\s*mtllib\s+.+$/gm) ?? [];
+        for (const line of libraries) {
+            const file = line.trim().substring('mtllib'.length).trim();
+            await this.loadMaterialLibrary(this.fileSystem.resolve(file, this.baseUrl));
+        }
+
+        return {
+            data: this.parseObj(source),
+            materials: [...this.materials.values()],
+            textures: [...this.textures.values()],
+        };
+    }
+
+    //#region OBJ
+    private parseObj(source: string): MeshData {
+        const positions: number[] = [];
+        const colors: number[] = [];
+        const uvs: number[] = [];
+        const normals: number[] = [];
+
+        // 去重后的顶点流
+        const outPositions: number[] = [];
+        const outUVs: number[] = [];
+        const outNormals: number[] = [];
+        const outColors: number[] = [];
+        const vertexMap = new Map<string, number>();
+        let hasColors = false;
+
+        const groups: MaterialGroup[] = [];
+        const groupByMaterial = new Map<MaterialAsset | null, MaterialGroup>();
+        let current: MaterialGroup | null = null;
+
+        const useMaterial = (material: MaterialAsset | null) => {
+            let group = groupByMaterial.get(material);
+            if (!group) {
+                group = { material, indices: [] };
+                groupByMaterial.set(material, group);
+                groups.push(group);
+            }
+            current = group;
+        };
+
+        // OBJ 索引从 1 开始，负数表示相对当前末尾
+        const resolve = (token: string | undefined, count: number): number => {
+            if (!token) {
+                return -1;
+            }
+            const index = parseInt(token, 10);
+            return index < 0 ? count + index : index - 1;
+        };
+
+        const getVertex = (token: string, line: number): number => {
+            const [v, vt, vn] = token.split('/');
+            const pi = resolve(v, positions.length / 3);
+            const ti = resolve(vt, uvs.length / 2);
+            const ni = resolve(vn, normals.length / 3);
+            if (pi < 0 || pi >= positions.length / 3) {
+                throw new Error(`Invalid OBJ vertex index "${token}" at line ${line}: ${this.url}`);
+            }
+
+            const key = `${pi}/${ti}/${ni}`;
+            let index = vertexMap.get(key);
+            if (index === undefined) {
+                index = outPositions.length / 3;
+                vertexMap.set(key, index);
+                outPositions.push(positions[pi * 3], positions[pi * 3 + 1], positions[pi * 3 + 2]);
+                outColors.push(colors[pi * 3] ?? 1, colors[pi * 3 + 1] ?? 1, colors[pi * 3 + 2] ?? 1, 1);
+                outUVs.push(ti >= 0 ? uvs[ti * 2] : 0, ti >= 0 ? uvs[ti * 2 + 1] : 0);
+                outNormals.push(
+                    ni >= 0 ? normals[ni * 3] : 0,
+                    ni >= 0 ? normals[ni * 3 + 1] : 0,
+                    ni >= 0 ? normals[ni * 3 + 2] : 0
+                );
+            }
+            return index;
+        };
+
+        const lines = source.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+            const parts = line.split(/\s+/);
+            const keyword = parts[0];
+
+            switch (keyword) {
+                case 'v':
+                    positions.push(+parts[1], +parts[2], +parts[3]);
+                    // 非标准扩展：v x y z r g b
+                    if (parts.length >= 7) {
+                        hasColors = true;
+                        colors.push(+parts[4], +parts[5], +parts[6]);
+                    } else {
+                        colors.push(1, 1, 1);
+                    }
+                    break;
+                case 'vt':
+                    // OBJ 的 v 轴向上，WebGPU 纹理坐标原点在左上角
+                    uvs.push(+parts[1], 1 - +(parts[2] ?? 0));
+                    break;
+                case 'vn':
+                    normals.push(+parts[1], +parts[2], +parts[3]);
+                    break;
+                case 'f': {
+                    if (!current) {
+                        useMaterial(null);
+                    }
+                    const face = parts.slice(1).map(token => getVertex(token, i + 1));
+                    // 扇形三角化（适用于凸多边形）
+                    for (let k = 1; k + 1 < face.length; k++) {
+                        current!.indices.push(face[0], face[k], face[k + 1]);
+                    }
+                    break;
+                }
+                case 'usemtl': {
+                    const name = line.substring(keyword.length).trim();
+                    const material = this.materials.get(name) ?? null;
+                    if (!material) {
+                        console.warn(`OBJ material "${name}" not found: ${this.url}`);
+                    }
+                    useMaterial(material);
+                    break;
+                }
+                default:
+                    // o / g / s / mtllib 等不影响几何
+                    break;
+            }
+        }
+
+        const indices: number[] = [];
+        const subMeshes: SubMesh[] = [];
+        for (const group of groups) {
+            if (group.indices.length === 0) {
+                continue;
+            }
+            subMeshes.push({ firstIndex: indices.length, indexCount: group.indices.length, material: group.material });
+            for (const index of group.indices) {
+                indices.push(index);
+            }
+        }
+
+        const vertexCount = outPositions.length / 3;
+        return {
+            vertices: interleaveStandardVertices({
+                positions: outPositions,
+                normals: outNormals,
+                uvs: outUVs,
+                colors: hasColors ? outColors : null,
+            }),
+            vertexCount,
+            layout: STANDARD_VERTEX_LAYOUT,
+            indices: createIndexArray(indices, vertexCount),
+            subMeshes,
+        };
+    }
+    //#endregion
+
+    //#region MTL
+    private async loadMaterialLibrary(url: string): Promise<void> {
+        let source: string;
+        try {
+            source = await this.fileSystem.readText(url, this.signal);
+        } catch (err) {
+            if (this.signal?.aborted) {
+                throw err;
+            }
+            // 缺少 MTL 时几何仍可用，材质使用 fallback
+            console.warn(`Failed to load MTL ${url}:`, err);
+            return;
+        }
+
+        const baseUrl = url.substring(0, url.lastIndexOf('/') + 1);
+        let name: string | null = null;
+        let fields: Map<string, string> = new Map();
+
+        const flush = () => {
+            if (name !== null && !this.materials.has(name)) {
+                this.materials.set(name, this.buildMaterial(url, name, fields, baseUrl));
+            }
+        };
+
+        for (const raw of source.split(/\r?\n/)) {
+            const line = raw.trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+            const keyword = line.split(/\s+/, 1)[0];
+            const value = line.substring(keyword.length).trim();
+
+            if (keyword === 'newmtl') {
+                flush();
+                name = value;
+                fields = new Map();
+            } else {
+                fields.set(keyword, value);
+            }
+        }
+        flush();
+    }
+
+    private buildMaterial(libraryUrl: string, name: string, fields: Map<string, string>, baseUrl: string): MaterialAsset {
+        const numbers = (key: string): number[] | null => {
+            const value = fields.get(key);
+            return value ? value.split(/\s+/).map(Number) : null;
+        };
+
+        const kd = numbers('Kd') ?? [1, 1, 1];
+        const ke = numbers('Ke') ?? [0, 0, 0];
+        // d 为不透明度，Tr 为透明度
+        const d = numbers('d')?.[0] ?? (fields.has('Tr') ? 1 - Number(fields.get('Tr')) : 1);
+        // Phong 高光指数近似换算为粗糙度
+        const ns = numbers('Ns')?.[0];
+        const roughness = ns !== undefined ? Math.sqrt(2 / (ns + 2)) : 1;
+
+        const data = createMaterialData({
+            name,
+            baseColorFactor: [kd[0], kd[1], kd[2], d],
+            baseColorTexture: this.getTexture(fields.get('map_Kd'), baseUrl, 'srgb'),
+            metallicFactor: 0,
+            roughnessFactor: roughness,
+            normalTexture: this.getTexture(
+                fields.get('norm') ?? fields.get('map_Bump') ?? fields.get('bump'), baseUrl, 'linear'
+            ),
+            emissiveFactor: [ke[0], ke[1], ke[2]],
+            emissiveTexture: this.getTexture(fields.get('map_Ke'), baseUrl, 'srgb'),
+            alphaMode: d < 1 ? 'blend' : 'opaque',
+        });
+
+        return new MaterialAsset(`${libraryUrl}#${name}`, data);
+    }
+
+    /** 贴图语句可能带选项（如 -bm 1.0 file.png），取最后一个参数为文件名 */
+    private getTexture(value: string | undefined, baseUrl: string, colorSpace: 'srgb' | 'linear'): TextureAsset | null {
+        if (!value) {
+            return null;
+        }
+        const file = value.split(/\s+/).pop()!;
+        const url = this.fileSystem.resolve(file, baseUrl);
+        const key = `${url}:${colorSpace}`;
+
+        let texture = this.textures.get(key);
+        if (!texture) {
+            texture = new TextureAsset(url, {
+                colorSpace,
+                id: colorSpace === 'linear' ? `${url}:linear` : url,
+            });
+            this.textures.set(key, texture);
+        }
+        return texture;
+    }
+    //#endregion
+}
+
+/**
+ * OBJ 网格 Loader（AssetType.Mesh）
+ */
+export class ObjLoader implements IAssetLoader<ObjLoadResult> {
+    readonly type = AssetType.Mesh;
+    readonly extensions = ['.obj'];
+
+    load(path: string, context: AssetLoadContext, signal?: AbortSignal): Promise<ObjLoadResult> {
+        return new ObjImporter(path, context.fileSystem, signal).load();
+    }
+}
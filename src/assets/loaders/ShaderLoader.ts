@@ -0,0 +1,14 @@
+import { AssetType } from "../AssetEnums";
+import { AssetLoadContext, IAssetLoader } from "./IAssetLoader";
+
+/**
+ * WGSL 源码加载
+ */
+export class ShaderLoader implements IAssetLoader<string> {
+    readonly type = AssetType.Shader;
+    readonly extensions = ['.wgsl'];
+
+    load(path: string, context: AssetLoadContext, signal?: AbortSignal): Promise<string> {
+        return context.fileSystem.readText(path, signal);
+    }
+}
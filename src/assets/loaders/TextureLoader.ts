@@ -0,0 +1,74 @@
+import { AssetType } from "../AssetEnums";
+import { AssetLoadContext, IAssetLoader } from "./IAssetLoader";
+
+/**
+ * 解码后的图片（RGBA8，逐行紧密排列）
+ */
+export interface DecodedImage {
+    width: number;
+    height: number;
+    pixels: Uint8Array;
+}
+
+/** 通过文件头识别的图片格式 */
+const IMAGE_SIGNATURES: { mimeType: string; match(bytes: Uint8Array): boolean }[] = [
+    {
+        mimeType: 'image/png',
+        match: b => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47,
+    },
+    {
+        mimeType: 'image/jpeg',
+        match: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+    },
+    {
+        // RIFF....WEBP
+        mimeType: 'image/webp',
+        match: b => b[0] === 0x52 && b[1] === 0x49 && b[2] === 0x46 && b[3] === 0x46 &&
+            b[8] === 0x57 && b[9] === 0x45 && b[10] === 0x42 && b[11] === 0x50,
+    },
+];
+
+/**
+ * 解码 PNG / JPEG / WebP 为 RGBA8 像素
+ * - 关闭颜色空间转换与预乘，保证数据贴图的原值不被改写
+ * @param name 用于错误信息
+ */
+export async function decodeImage(bytes: Uint8Array, name: string): Promise<DecodedImage> {
+    const signature = IMAGE_SIGNATURES.find(s => s.match(bytes));
+    if (!signature) {
+        throw new Error(`Unsupported image format: ${name}`);
+    }
+
+    const blob = new Blob([bytes], { type: signature.mimeType });
+    const bitmap = await createImageBitmap(blob, {
+        colorSpaceConversion: 'none',
+        premultiplyAlpha: 'none',
+    });
+
+    try {
+        const { width, height } = bitmap;
+        const canvas = new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
+        if (!context) {
+            throw new Error(`Failed to decode texture: ${name}`);
+        }
+        context.drawImage(bitmap, 0, 0);
+        const image = context.getImageData(0, 0, width, height);
+
+        return { width, height, pixels: new Uint8Array(image.data.buffer) };
+    } finally {
+        bitmap.close();
+    }
+}
+
+/**
+ * 图片加载（依赖浏览器的 createImageBitmap / OffscreenCanvas）
+ */
+export class TextureLoader implements IAssetLoader<DecodedImage> {
+    readonly type = AssetType.Texture;
+    readonly extensions = ['.png', '.jpg', '.jpeg', '.webp'];
+
+    async load(path: string, context: AssetLoadContext, signal?: AbortSignal): Promise<DecodedImage> {
+        return decodeImage(await context.fileSystem.readBytes(path, signal), path);
+    }
+}
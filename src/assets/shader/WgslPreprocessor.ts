@@ -0,0 +1,205 @@
+import { ShaderPreprocessError } from "../AssetErrors";
+
+/**
+ * 变体宏定义
+ * - true 仅定义；false 视为未定义；其他值在源码中按整词替换
+ */
+export type ShaderDefines = Readonly<Record<string, string | number | boolean>>;
+
+/**
+ * 一个 WGSL 源文件
+ */
+export interface ShaderSourceFile {
+    /** 绝对路径 */
+    path: string;
+    code: string;
+    /** #include / #import 的参数 → 解析后的绝对路径 */
+    includes: ReadonlyMap<string, string>;
+}
+
+/** 原始文件中的位置（行号从 1 开始） */
+export interface SourceLocation {
+    file: string;
+    line: number;
+}
+
+/**
+ * 预处理输出的行 → 原始文件位置（下标为输出行号 - 1）
+ */
+export type ShaderSourceMap = readonly SourceLocation[];
+
+export interface PreprocessedShader {
+    code: string;
+    sourceMap: ShaderSourceMap;
+}
+
+// 行首的预处理指令：#name 参数
+const DIRECTIVE = /^\s*#(\w+)\s*(.*?)\s*$/;
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+/**
+ * 变体 key（与宏的书写顺序无关；无宏时为空字符串）
+ */
+export function getVariantKey(defines: ShaderDefines = {}): string {
+    return Object.keys(defines)
+        .filter(name => defines[name] !== false)
+        .sort()
+        .map(name => defines[name] === true ? name : `${name}=${defines[name]}`)
+        .join(';');
+}
+
+/**
+ * 源码中引用的所有文件（#include / #import 的参数，不考虑条件编译）
+ * - 加载时据此预先读取全部可能用到的文件，各变体都可直接预处理
+ */
+export function findIncludes(code: string): string[] {
+    const includes: string[] = [];
+    for (const text of code.split('\n')) {
+        const match = DIRECTIVE.exec(text);
+        if (match && (match[1] === 'include' || match[1] === 'import')) {
+            includes.push(parseIncludePath(match[2]));
+        }
+    }
+    return includes;
+}
+
+/**
+ * 预处理 WGSL
+ * - #include "file" / #import "file"：展开文件，同一文件只展开一次（可被多处引用）
+ * - #define NAME [value] / #undef NAME
+ * - #ifdef NAME / #ifndef NAME / #else / #endif
+ * - 指令行不输出；sourceMap 记录每个输出行的来源
+ * @param root 入口文件路径
+ * @param files 入口文件及其引用的所有文件
+ */
+export function preprocessWgsl(
+    root: string,
+    files: ReadonlyMap<string, ShaderSourceFile>,
+    defines: ShaderDefines = {}
+): PreprocessedShader {
+    const macros = new Map<string, string>();
+    for (const name of Object.keys(defines)) {
+        if (defines[name] !== false) {
+            macros.set(name, defines[name] === true ? '' : String(defines[name]));
+        }
+    }
+
+    const lines: string[] = [];
+    const sourceMap: SourceLocation[] = [];
+    const expanded = new Set<string>();
+
+    const expand = (path: string): void => {
+        if (expanded.has(path)) {
+            return;
+        }
+        expanded.add(path);
+
+        const file = files.get(path);
+        if (!file) {
+            throw new ShaderPreprocessError(path, 0, 'Shader source not loaded');
+        }
+
+        // 条件栈：每层记录本层是否输出（已包含外层条件）
+        const conditions: { active: boolean; parentActive: boolean; hasElse: boolean; line: number }[] = [];
+        const isActive = () => conditions.length === 0 || conditions[conditions.length - 1].active;
+
+        file.code.split('\n').forEach((text, index) => {
+            const line = index + 1;
+            const fail = (message: string) => new ShaderPreprocessError(path, line, message);
+            const match = DIRECTIVE.exec(text);
+
+            if (!match) {
+                if (isActive()) {
+                    lines.push(substitute(text, macros));
+                    sourceMap.push({ file: path, line });
+                }
+                return;
+            }
+
+            const [, directive, argument] = match;
+            switch (directive) {
+                case 'ifdef':
+                case 'ifndef': {
+                    const name = parseIdentifier(argument, fail);
+                    const parentActive = isActive();
+                    const condition = macros.has(name) === (directive === 'ifdef');
+                    conditions.push({ active: parentActive && condition, parentActive, hasElse: false, line });
+                    break;
+                }
+                case 'else': {
+                    const top = conditions[conditions.length - 1];
+                    if (!top || top.hasElse) {
+                        throw fail('#else without matching #ifdef');
+                    }
+                    top.active = top.parentActive && !top.active;
+                    top.hasElse = true;
+                    break;
+                }
+                case 'endif':
+                    if (!conditions.pop()) {
+                        throw fail('#endif without matching #ifdef');
+                    }
+                    break;
+                case 'define':
+                    if (isActive()) {
+                        const [name, ...value] = argument.split(/\s+/);
+                        macros.set(parseIdentifier(name, fail), value.join(' '));
+                    }
+                    break;
+                case 'undef':
+                    if (isActive()) {
+                        macros.delete(parseIdentifier(argument, fail));
+                    }
+                    break;
+                case 'include':
+                case 'import':
+                    if (isActive()) {
+                        const target = file.includes.get(parseIncludePath(argument));
+                        if (!target) {
+                            throw fail(`Unresolved #${directive} ${argument}`);
+                        }
+                        expand(target);
+                    }
+                    break;
+                default:
+                    throw fail(`Unknown directive #${directive}`);
+            }
+        });
+
+        if (conditions.length > 0) {
+            throw new ShaderPreprocessError(path, conditions[0].line, 'Unterminated #ifdef');
+        }
+    };
+
+    expand(root);
+    return { code: lines.join('\n'), sourceMap };
+}
+
+/**
+ * 输出行号（从 1 开始）对应的原始位置
+ */
+export function mapSourceLine(sourceMap: ShaderSourceMap, line: number): SourceLocation | undefined {
+    return sourceMap[line - 1];
+}
+
+function parseIncludePath(argument: string): string {
+    return argument.replace(/^["<](.*)[">]$/, '$1');
+}
+
+function parseIdentifier(argument: string, fail: (message: string) => Error): string {
+    if (!IDENTIFIER.test(argument)) {
+        throw fail(`Invalid macro name '${argument}'`);
+    }
+    return argument;
+}
+
+// 带值的宏按整词替换
+function substitute(text: string, macros: ReadonlyMap<string, string>): string {
+    let result = text;
+    for (const [name, value] of macros) {
+        if (value !== '' && result.includes(name)) {
+            result = result.replace(new RegExp(`\\b${name}\\b`, 'g'), value);
+        }
+    }
+    return result;
+}
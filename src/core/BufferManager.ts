@@ -1,3 +1,7 @@
+function alignTo4(size: number): number {
+    return Math.ceil(size / 4) * 4;
+}
+
 /**
  * BufferManager 管理 GPU Buffer 的创建
  * 封装 buffer 创建逻辑，提供统一的接口
@@ -15,7 +19,7 @@ export class BufferManager {
     createVertexBuffer(data: ArrayBufferView, label?: string): GPUBuffer {
         const buffer = this.device.createBuffer({
             label: label || 'Vertex buffer',
-            size: data.byteLength,
+            size: alignTo4(data.byteLength), // mappedAtCreation 要求 4 字节对齐
             usage: GPUBufferUsage.VERTEX,
             mappedAtCreation: true,
         });
@@ -31,7 +35,7 @@ export class BufferManager {
     createIndexBuffer(data: ArrayBufferView, label?: string): GPUBuffer {
         const buffer = this.device.createBuffer({
             label: label || 'Index buffer',
-            size: data.byteLength,
+            size: alignTo4(data.byteLength), // mappedAtCreation 要求 4 字节对齐
             usage: GPUBufferUsage.INDEX,
             mappedAtCreation: true,
         });
@@ -1,6 +1,6 @@
 import { ICamera } from "./types/ICamera"
 import { Scene } from "../scene/Scene"
-import { RenderTarget } from "./types/RenderTarget"
+import { RenderTarget, SampleCount } from "./types/RenderTarget"
 import { IRenderer } from "./types/IRenderer"
 import { mat4 } from "gl-matrix"
 
@@ -14,6 +14,7 @@ export class PerspectiveCamera implements ICamera {
     readonly renderer: IRenderer  // Camera 与 Renderer 一一对应
     enabled: boolean = true
     order: number = 0
+    sampleCount?: SampleCount
 
     // 位置和旋转
     private _position: [number, number, number] = [0, 0, 0]
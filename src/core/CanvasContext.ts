@@ -1,11 +1,24 @@
+import { DEFAULT_DEPTH_FORMAT } from "./DepthBuffer";
+import { RenderTargetAttachments } from "./RenderTargetAttachments";
+import { DepthStencilTarget } from "./types/RenderContext";
+import { SampleCount } from "./types/RenderTarget";
+
+export interface CanvasContextOptions {
+    /** 深度（/ 模板）格式，null 表示不创建深度附件；默认 depth24plus */
+    depthFormat?: GPUTextureFormat | null;
+    /** 默认采样数（Camera 可覆盖）；默认 1 */
+    sampleCount?: SampleCount;
+}
+
 export class CanvasContext {
     private device: GPUDevice;
     private context: GPUCanvasContext;
     private canvas: HTMLCanvasElement;
+    private _format!: GPUTextureFormat;
 
-    // 独立资源
-    private depthTexture: GPUTexture | null = null;
-    private multisampleTexture: GPUTexture | null = null;
+    // 独立资源：深度与 MSAA 颜色附件（MSAA 时 resolve 到 Canvas 纹理）
+    private attachments: RenderTargetAttachments;
+    readonly sampleCount: SampleCount;
     private renderPipeline: GPURenderPipeline | null = null;
     private bindGroups: Map<string, GPUBindGroup> = new Map();
     private uniformBuffers: Map<string, GPUBuffer> = new Map();
@@ -14,21 +27,30 @@ export class CanvasContext {
     private size: { width: number; height: number };
     private pixelRatio: number = 1;
 
-    constructor(canvas: HTMLCanvasElement, device: GPUDevice) {
+    constructor(canvas: HTMLCanvasElement, device: GPUDevice, options: CanvasContextOptions = {}) {
         this.canvas = canvas;
         this.device = device;
         this.context = canvas.getContext('webgpu')!;
         this.size = { width: canvas.width, height: canvas.height };
+        this.sampleCount = options.sampleCount ?? 1;
 
         this.configure();
-        // this.createDepthTexture();
+
+        const depthFormat = options.depthFormat === undefined ? DEFAULT_DEPTH_FORMAT : options.depthFormat;
+        this.attachments = new RenderTargetAttachments(device, this._format, depthFormat, 'Canvas');
+        this.attachments.resize(this.size.width, this.size.height);
+    }
+
+    /** Canvas 的颜色格式 */
+    get format(): GPUTextureFormat {
+        return this._format;
     }
 
     private configure() {
-        const format = navigator.gpu!.getPreferredCanvasFormat();
+        this._format = navigator.gpu!.getPreferredCanvasFormat();
         this.context.configure({
             device: this.device,
-            format,
+            format: this._format,
             usage: GPUTextureUsage.RENDER_ATTACHMENT,
             alphaMode: 'opaque'
         });
@@ -39,13 +61,32 @@ export class CanvasContext {
         this.size = { width, height };
         this.canvas.width = width;
         this.canvas.height = height;
-        // this.recreateDepthTexture();
+        this.attachments.resize(width, height);
     }
 
     getCurrentTexture(): GPUTexture {
         return this.context.getCurrentTexture();
     }
 
+    /**
+     * 多重采样颜色附件（sampleCount 为 1 时返回 null）
+     */
+    getMultisampleView(sampleCount: number = this.sampleCount): GPUTextureView | null {
+        return this.attachments.getMultisampleView(sampleCount);
+    }
+
+    /**
+     * 深度（/ 模板）附件（未启用深度时返回 null）
+     * @param sampleCount 与颜色附件一致
+     */
+    getDepthStencil(sampleCount: number = this.sampleCount): DepthStencilTarget | null {
+        return this.attachments.getDepthStencil(sampleCount);
+    }
+
+    destroy(): void {
+        this.attachments.destroy();
+    }
+
     // 其他资源管理方法...
     public updateSize() {
         // 获取CSS显示尺寸
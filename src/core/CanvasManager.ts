@@ -1,4 +1,4 @@
-import { CanvasContext } from "./CanvasContext";
+import { CanvasContext, CanvasContextOptions } from "./CanvasContext";
 
 export class CanvasManager {
     private device: GPUDevice;
@@ -16,13 +16,14 @@ export class CanvasManager {
     // 注册canvas时需要device
     registerCanvas(
         canvas: HTMLCanvasElement,
-        id?: string
+        id?: string,
+        options?: CanvasContextOptions
     ): CanvasContext {
         if (!id) {
             id = `canvas_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         }
 
-        const context = new CanvasContext(canvas, this.device);
+        const context = new CanvasContext(canvas, this.device, options);
         this.contexts.set(id, context);
 
         if (!this.defaultCanvasId) {
@@ -78,6 +79,9 @@ export class CanvasManager {
             window.removeEventListener('resize', this.windowResizeHandler);
             this.windowResizeHandler = null;
         }
+        for (const context of this.contexts.values()) {
+            context.destroy();
+        }
         this.contexts.clear();
     }
 }
\ No newline at end of file
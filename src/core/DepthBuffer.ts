@@ -0,0 +1,26 @@
+import { RenderAttachment } from "./RenderAttachment";
+
+/** 默认深度格式（无模板） */
+export const DEFAULT_DEPTH_FORMAT: GPUTextureFormat = 'depth24plus';
+
+/**
+ * 格式是否带模板分量
+ */
+export function hasStencil(format: GPUTextureFormat): boolean {
+    return format.includes('stencil');
+}
+
+/**
+ * DepthBuffer 持有一个渲染目标的深度（/ 模板）附件
+ * - 尺寸随渲染目标变化时重新创建；采样数与颜色附件一致
+ */
+export class DepthBuffer extends RenderAttachment {
+    constructor(device: GPUDevice, format: GPUTextureFormat = DEFAULT_DEPTH_FORMAT, label = 'Depth buffer', sampleCount = 1) {
+        super(device, format, label, sampleCount);
+    }
+
+    /** 是否带模板分量 */
+    get hasStencil(): boolean {
+        return hasStencil(this.format);
+    }
+}
@@ -1,6 +1,10 @@
 import { SceneManager } from "../scene/SceneManager";
 import { AssetManager } from "../assets/AssetManager";
 import { RenderSystem } from "../rendering/RenderSystem";
+import { IAsset } from "../assets/asset_types/IAsset";
+import { LoadProgressListener } from "../assets/LoadProgress";
+import { AssetHotReloader } from "../assets/AssetHotReloader";
+import { ViteFileChangeSource } from "../assets/io/ViteFileChangeSource";
 
 /**
  * Engine 是生命周期协调器
@@ -13,16 +17,23 @@ export class Engine {
     public readonly sceneManager: SceneManager;
     public readonly assetManager: AssetManager;
     private readonly renderSystem: RenderSystem;
+    // 开发服务器下文件（.wgsl）修改后重新加载对应 Asset
+    private readonly hotReloader: AssetHotReloader;
 
     // 循环状态
     private _lastFrameTime = 0;
     private _animationFrameId: number | null = null;
     private _isRunning = false;
 
+    // 上一次 prepare 持有引用的 Asset
+    private _preparedAssets: IAsset[] = [];
+
     private constructor(renderSystem: RenderSystem) {
         this.renderSystem = renderSystem;
         this.sceneManager = new SceneManager();
-        this.assetManager = new AssetManager();
+        this.assetManager = new AssetManager(renderSystem);
+        renderSystem.shaders.bindAssetManager(this.assetManager);
+        this.hotReloader = new AssetHotReloader(this.assetManager, new ViteFileChangeSource());
     }
 
     /**
@@ -49,10 +60,28 @@ export class Engine {
      * Prepare 阶段
      * - 允许 await
      * - 推进 Scene 中所需 Asset 到 Ready
+     * - 持有其引用；不再被 Scene 使用的 Asset 释放引用，交由预算回收
+     * - Scene 在加载期间被移除时，其加载被取消
+     * @param onProgress 加载进度（所有 Scene 合计，含加载中新发现的依赖）
      */
-    public async prepare(): Promise<void> {
-        const assets = this.sceneManager.collectAssets();
-        await this.assetManager.prepare(assets);
+    public async prepare(onProgress?: LoadProgressListener): Promise<void> {
+        const assets = Array.from(this.sceneManager.collectAssets());
+        for (const asset of assets) {
+            this.assetManager.acquire(asset);
+        }
+        for (const asset of this._preparedAssets) {
+            this.assetManager.release(asset);
+        }
+        this._preparedAssets = assets;
+
+        const tracker = onProgress ? this.assetManager.trackProgress(assets, onProgress) : null;
+        try {
+            await Promise.all(this.sceneManager.getScenes().map(scene =>
+                this.assetManager.prepare(scene.assets, scene.loadSignal)
+            ));
+        } finally {
+            tracker?.stop();
+        }
     }
 
     /**
@@ -104,6 +133,9 @@ export class Engine {
         // 逻辑更新
         this.sceneManager.update(deltaTime);
 
+        // 分帧上传 GPU 资源（可见的优先）
+        this.assetManager.update(this.sceneManager.collectVisibleAssets());
+
         // 5. 渲染（使用Fallback处理未加载成功的资源）
         const cameras = this.sceneManager.getRenderCameras();
         this.renderSystem.renderFrame(cameras);
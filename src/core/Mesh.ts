@@ -1,5 +1,15 @@
 import { Mesh } from "./types/Mesh"
 import { BufferManager } from "./BufferManager"
+import { VertexLayout } from "../assets/asset_types/MeshAsset"
+
+/** 位置 + 颜色，共 28 字节 */
+const POSITION_COLOR_LAYOUT: VertexLayout = {
+    arrayStride: 7 * 4,
+    attributes: [
+        { semantic: 'position', format: 'float32x3', offset: 0 },
+        { semantic: 'color', format: 'float32x4', offset: 12 },
+    ],
+}
 
 /**
  * 工具类：创建常用几何体
@@ -46,7 +56,9 @@ export class MeshBuilder {
 
         return {
             vertexBuffer,
+            layout: POSITION_COLOR_LAYOUT,
             indexBuffer,
+            indexFormat: 'uint16',
             indexCount: indices.length,
             vertexCount: vertices.length / 7, // 每个顶点 7 个 float (3 pos + 4 color)
         }
@@ -1,12 +1,56 @@
+import { Handle, PipelineHandle, ShaderHandle, createPipelineHandle, describeHandle, freeHandle } from "@/assets/AssetHandle";
+
+/**
+ * 句柄在缓存 key 中的部分（包含 generation，槽位被复用后不会命中旧句柄的缓存）
+ */
+export function getHandleKey(handle: Handle): string {
+    return `${handle.id}.${handle.generation}`;
+}
+
+/**
+ * 缓存的管线及创建时与之一起记录的信息
+ */
+export interface PipelineEntry<T> {
+    handle: PipelineHandle;
+    pipeline: GPURenderPipeline;
+    info: T;
+}
+
+type CachedPipeline = PipelineEntry<unknown>;
+
+/**
+ * 管线需要匹配的渲染目标状态
+ */
+export interface RenderTargetState {
+    format: GPUTextureFormat;
+    /** 深度（/ 模板）格式，没有深度附件时为 null */
+    depthFormat: GPUTextureFormat | null;
+    sampleCount: number;
+}
+
+/**
+ * 渲染目标状态在管线 key 中的部分（不同采样数 / 深度格式的管线分别缓存）
+ */
+export function getTargetStateKey(state: RenderTargetState): string {
+    return `${state.format}_${state.depthFormat ?? 'nodepth'}_x${state.sampleCount}`;
+}
+
 /**
  * PipelineManager 管理渲染管线的创建和缓存
  * 支持根据不同的配置创建和重用管线
+ * 记录管线所用的着色器，着色器重新编译时使相关管线失效
+ * 每个缓存的管线分配一个 PipelineHandle，移除时释放
  */
 export class PipelineManager {
     private device: GPUDevice;
-    private pipelines: Map<string, GPURenderPipeline> = new Map();
+    private pipelines: Map<string, CachedPipeline> = new Map();
     // 跟踪正在异步创建的管线
     private pendingPipelines: Map<string, Promise<GPURenderPipeline>> = new Map();
+    // getHandleKey(ShaderHandle) → 使用它的管线 key
+    private shaderDependents: Map<string, Set<string>> = new Map();
+    // 布局按内容缓存，相同声明的管线共享同一个对象（BindGroup 可互换）
+    private bindGroupLayouts: Map<string, GPUBindGroupLayout> = new Map();
+    private pipelineLayouts: Map<string, GPUPipelineLayout> = new Map();
 
     constructor(device: GPUDevice) {
         this.device = device;
@@ -16,32 +60,53 @@ export class PipelineManager {
      * 获取或创建渲染管线（同步版本）
      * @param key 管线唯一标识（用于缓存）
      * @param descriptor 管线描述符创建函数（不需要传入 device，内部已持有）
+     * @param shaders 管线使用的着色器（重新编译时管线失效）
      */
     getOrCreate(
         key: string,
-        descriptor: () => GPURenderPipelineDescriptor
+        descriptor: () => GPURenderPipelineDescriptor,
+        shaders: readonly ShaderHandle[] = []
     ): GPURenderPipeline {
-        let pipeline = this.pipelines.get(key);
-        if (!pipeline) {
-            const desc = descriptor();
-            pipeline = this.device.createRenderPipeline(desc);
-            this.pipelines.set(key, pipeline);
+        return this.getOrCreateWithInfo(key, () => ({ descriptor: descriptor(), info: undefined }), shaders).pipeline;
+    }
+
+    /**
+     * 获取或创建渲染管线，并与管线一起缓存附加信息（如由着色器反射得到的绑定）
+     * - 信息随管线一起缓存与失效，任何调用者取到缓存的管线时都能得到它
+     * - 同一 key 的调用者需使用相同类型的信息
+     * @param create 返回管线描述符与附加信息
+     * @param shaders 管线使用的着色器（重新编译时管线失效）
+     */
+    getOrCreateWithInfo<T>(
+        key: string,
+        create: () => { descriptor: GPURenderPipelineDescriptor; info: T },
+        shaders: readonly ShaderHandle[] = []
+    ): PipelineEntry<T> {
+        let cached = this.pipelines.get(key);
+        if (!cached) {
+            const { descriptor, info } = create();
+            cached = this.createPipeline(key, descriptor, info);
+            this.pipelines.set(key, cached);
+            this.trackShaders(key, shaders);
         }
-        return pipeline;
+        return cached as PipelineEntry<T>;
     }
 
     /**
      * 获取或创建渲染管线（异步版本）
      * @param key 管线唯一标识（用于缓存）
      * @param descriptor 异步的管线描述符创建函数
+     * @param shaders 管线使用的着色器（重新编译时管线失效）
      */
     async getOrCreateAsync(
         key: string,
-        descriptor: () => Promise<GPURenderPipelineDescriptor>
+        descriptor: () => Promise<GPURenderPipelineDescriptor>,
+        shaders: readonly ShaderHandle[] = []
     ): Promise<GPURenderPipeline> {
         // 检查是否已存在
-        if (this.pipelines.has(key)) {
-            return this.pipelines.get(key)!;
+        const cached = this.pipelines.get(key);
+        if (cached) {
+            return cached.pipeline;
         }
 
         // 检查是否正在创建中
@@ -50,12 +115,18 @@ export class PipelineManager {
         }
 
         // 创建新的异步任务
-        const pipelinePromise = (async () => {
+        let pipelinePromise!: Promise<GPURenderPipeline>;
+        pipelinePromise = (async () => {
             const desc = await descriptor();
-            const pipeline = this.device.createRenderPipeline(desc);
-            this.pipelines.set(key, pipeline);
+            // 创建期间已失效（如着色器重新编译）时不写入缓存
+            if (this.pendingPipelines.get(key) !== pipelinePromise) {
+                return this.device.createRenderPipeline(desc);
+            }
+            const created = this.createPipeline(key, desc, undefined);
+            this.pipelines.set(key, created);
             this.pendingPipelines.delete(key);
-            return pipeline;
+            this.trackShaders(key, shaders);
+            return created.pipeline;
         })();
 
         this.pendingPipelines.set(key, pipelinePromise);
@@ -74,15 +145,72 @@ export class PipelineManager {
      * 获取管线（如果不存在则返回 null）
      */
     get(key: string): GPURenderPipeline | null {
-        return this.pipelines.get(key) || null;
+        return this.pipelines.get(key)?.pipeline ?? null;
+    }
+
+    /**
+     * 获取管线的句柄（如果不存在则返回 null；管线被移除后句柄过期）
+     */
+    getHandle(key: string): PipelineHandle | null {
+        return this.pipelines.get(key)?.handle ?? null;
+    }
+
+    /**
+     * 获取（或创建）内容相同即共享的 GPUBindGroupLayout
+     * @param entries 按 binding 排序的布局项
+     */
+    getBindGroupLayout(entries: readonly GPUBindGroupLayoutEntry[]): GPUBindGroupLayout {
+        const key = JSON.stringify(entries);
+        let layout = this.bindGroupLayouts.get(key);
+        if (!layout) {
+            layout = this.device.createBindGroupLayout({ entries });
+            this.bindGroupLayouts.set(key, layout);
+        }
+        return layout;
+    }
+
+    /**
+     * 获取（或创建）内容相同即共享的 GPUPipelineLayout
+     * @param groups 每个 group 的布局项（下标即 group）
+     */
+    getPipelineLayout(groups: readonly (readonly GPUBindGroupLayoutEntry[])[]): GPUPipelineLayout {
+        const key = JSON.stringify(groups);
+        let layout = this.pipelineLayouts.get(key);
+        if (!layout) {
+            layout = this.device.createPipelineLayout({
+                bindGroupLayouts: groups.map(entries => this.getBindGroupLayout(entries)),
+            });
+            this.pipelineLayouts.set(key, layout);
+        }
+        return layout;
+    }
+
+    /**
+     * 使用到指定着色器的管线全部失效（下次使用时重新创建）
+     * @returns 失效的管线 key
+     */
+    invalidateShader(handle: ShaderHandle): string[] {
+        const shaderKey = getHandleKey(handle);
+        const keys = [...(this.shaderDependents.get(shaderKey) ?? [])];
+        for (const key of keys) {
+            this.remove(key);
+        }
+        this.shaderDependents.delete(shaderKey);
+        return keys;
     }
 
     /**
      * 清除所有管线缓存
      */
     clear(): void {
+        for (const { handle } of this.pipelines.values()) {
+            freeHandle(handle);
+        }
         this.pipelines.clear();
         this.pendingPipelines.clear();
+        this.shaderDependents.clear();
+        this.bindGroupLayouts.clear();
+        this.pipelineLayouts.clear();
     }
 
     /**
@@ -90,7 +218,33 @@ export class PipelineManager {
      */
     remove(key: string): boolean {
         this.pendingPipelines.delete(key);
+        for (const keys of this.shaderDependents.values()) {
+            keys.delete(key);
+        }
+        const cached = this.pipelines.get(key);
+        if (!cached) {
+            return false;
+        }
+        freeHandle(cached.handle);
         return this.pipelines.delete(key);
     }
+
+    private createPipeline(key: string, descriptor: GPURenderPipelineDescriptor, info: unknown): CachedPipeline {
+        const handle = createPipelineHandle(descriptor.label ?? key);
+        const pipeline = this.device.createRenderPipeline({ label: describeHandle(handle), ...descriptor });
+        return { handle, pipeline, info };
+    }
+
+    private trackShaders(key: string, shaders: readonly ShaderHandle[]): void {
+        for (const shader of shaders) {
+            const shaderKey = getHandleKey(shader);
+            let keys = this.shaderDependents.get(shaderKey);
+            if (!keys) {
+                keys = new Set();
+                this.shaderDependents.set(shaderKey, keys);
+            }
+            keys.add(key);
+        }
+    }
 }
 
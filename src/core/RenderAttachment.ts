@@ -0,0 +1,53 @@
+/**
+ * RenderAttachment 持有一个渲染目标的附加纹理（深度 / 多重采样颜色）
+ * - 尺寸随渲染目标变化时重新创建
+ */
+export class RenderAttachment {
+    protected device: GPUDevice;
+    protected label: string;
+    readonly format: GPUTextureFormat;
+    readonly sampleCount: number;
+
+    private texture: GPUTexture | null = null;
+    private view: GPUTextureView | null = null;
+    private size = { width: 0, height: 0 };
+
+    constructor(device: GPUDevice, format: GPUTextureFormat, label: string, sampleCount = 1) {
+        this.device = device;
+        this.format = format;
+        this.label = label;
+        this.sampleCount = sampleCount;
+    }
+
+    /**
+     * 获取与渲染目标同尺寸的视图（尺寸变化时重新创建）
+     */
+    getView(width: number, height: number): GPUTextureView {
+        if (!this.view || this.size.width !== width || this.size.height !== height) {
+            this.resize(width, height);
+        }
+        return this.view!;
+    }
+
+    /**
+     * 按新尺寸重新创建纹理
+     */
+    resize(width: number, height: number): void {
+        this.texture?.destroy();
+        this.size = { width, height };
+        this.texture = this.device.createTexture({
+            label: this.label,
+            size: [Math.max(1, width), Math.max(1, height)],
+            format: this.format,
+            sampleCount: this.sampleCount,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT,
+        });
+        this.view = this.texture.createView();
+    }
+
+    destroy(): void {
+        this.texture?.destroy();
+        this.texture = null;
+        this.view = null;
+    }
+}
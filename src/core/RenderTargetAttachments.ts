@@ -0,0 +1,81 @@
+import { DepthBuffer } from "./DepthBuffer";
+import { RenderAttachment } from "./RenderAttachment";
+import { DepthStencilTarget } from "./types/RenderContext";
+
+/**
+ * 一个渲染目标（Canvas / 离屏纹理）的深度与 MSAA 颜色附件
+ * - 按采样数分别持有，同一帧内不同采样数的 Camera 互不影响
+ * - 渲染目标尺寸变化时重新创建
+ */
+export class RenderTargetAttachments {
+    private device: GPUDevice;
+    private label: string;
+    readonly colorFormat: GPUTextureFormat;
+    readonly depthFormat: GPUTextureFormat | null;
+
+    private size = { width: 0, height: 0 };
+    private depthBuffers = new Map<number, DepthBuffer>();
+    private multisampleBuffers = new Map<number, RenderAttachment>();
+
+    /**
+     * @param depthFormat null 表示不使用深度附件
+     */
+    constructor(device: GPUDevice, colorFormat: GPUTextureFormat, depthFormat: GPUTextureFormat | null, label: string) {
+        this.device = device;
+        this.colorFormat = colorFormat;
+        this.depthFormat = depthFormat;
+        this.label = label;
+    }
+
+    /**
+     * 渲染目标尺寸变化时重新创建已有的附件
+     */
+    resize(width: number, height: number): void {
+        if (this.size.width === width && this.size.height === height) {
+            return;
+        }
+        this.size = { width, height };
+        for (const attachment of [...this.depthBuffers.values(), ...this.multisampleBuffers.values()]) {
+            attachment.resize(width, height);
+        }
+    }
+
+    /**
+     * 多重采样颜色附件（sampleCount 为 1 时返回 null）
+     */
+    getMultisampleView(sampleCount: number): GPUTextureView | null {
+        if (sampleCount <= 1) {
+            return null;
+        }
+        let buffer = this.multisampleBuffers.get(sampleCount);
+        if (!buffer) {
+            buffer = new RenderAttachment(this.device, this.colorFormat, `${this.label} color x${sampleCount}`, sampleCount);
+            this.multisampleBuffers.set(sampleCount, buffer);
+        }
+        return buffer.getView(this.size.width, this.size.height);
+    }
+
+    /**
+     * 深度（/ 模板）附件（未启用深度时返回 null）
+     * @param sampleCount 与颜色附件一致
+     */
+    getDepthStencil(sampleCount: number): DepthStencilTarget | null {
+        if (!this.depthFormat) {
+            return null;
+        }
+        let buffer = this.depthBuffers.get(sampleCount);
+        if (!buffer) {
+            buffer = new DepthBuffer(this.device, this.depthFormat, `${this.label} depth x${sampleCount}`, sampleCount);
+            this.depthBuffers.set(sampleCount, buffer);
+        }
+        return { view: buffer.getView(this.size.width, this.size.height), format: this.depthFormat };
+    }
+
+    destroy(): void {
+        for (const attachment of [...this.depthBuffers.values(), ...this.multisampleBuffers.values()]) {
+            attachment.destroy();
+        }
+        this.depthBuffers.clear();
+        this.multisampleBuffers.clear();
+    }
+}
@@ -1,6 +1,6 @@
 import { Scene } from "../../scene/Scene"
 import { mat4 } from "gl-matrix"
-import { RenderTarget } from "./RenderTarget"
+import { RenderTarget, SampleCount } from "./RenderTarget"
 import { IRenderer } from "./IRenderer"
 
 export interface ICamera {
@@ -9,6 +9,8 @@ export interface ICamera {
     readonly renderer: IRenderer  // Camera 与 Renderer 一一对应
     enabled: boolean
     order: number
+    /** 覆盖渲染目标的采样数（未设置时使用渲染目标的配置） */
+    sampleCount?: SampleCount
 
     getViewMatrix(): mat4
     getProjectionMatrix(): mat4
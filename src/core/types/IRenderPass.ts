@@ -1,11 +1,84 @@
-import { Scene } from "../Scene"
-import { ICamera } from "./ICamera"
+/**
+ * 渲染图中的纹理资源
+ * - 每次写入产生新版本（write 返回新句柄），读取指定版本即声明对其写入者的依赖
+ */
+export interface RenderGraphTexture {
+    readonly kind: 'texture'
+    readonly id: number
+    readonly version: number
+    readonly name: string
+}
+
+/**
+ * 渲染图中的缓冲区资源（仅支持导入）
+ */
+export interface RenderGraphBuffer {
+    readonly kind: 'buffer'
+    readonly id: number
+    readonly version: number
+    readonly name: string
+}
+
+export type RenderGraphResource = RenderGraphTexture | RenderGraphBuffer
+
+/**
+ * 瞬态纹理的描述（由渲染图按帧分配，生命周期不重叠的纹理共享同一个 GPUTexture）
+ */
+export interface RenderGraphTextureDesc {
+    format: GPUTextureFormat
+    width: number
+    height: number
+    /** 默认 1 */
+    sampleCount?: number
+    /** 额外的用途（读写声明对应的用途会自动加入） */
+    usage?: GPUTextureUsageFlags
+}
+
+/**
+ * 纹理的访问方式（决定瞬态纹理的 usage）
+ * - sampled：作为纹理采样
+ * - attachment：作为颜色 / 深度附件
+ * - storage：作为存储纹理
+ * - copy：作为拷贝的源或目标
+ */
+export type TextureAccess = 'sampled' | 'attachment' | 'storage' | 'copy'
+
+/**
+ * Pass 在 setup 中声明所用资源
+ */
+export interface RenderPassBuilder {
+    /** 创建瞬态纹理并由本 Pass 写入，返回写入后的版本 */
+    createTexture(name: string, desc: RenderGraphTextureDesc, access?: TextureAccess): RenderGraphTexture
 
+    /** 声明读取（默认 sampled） */
+    read<R extends RenderGraphResource>(resource: R, access?: TextureAccess): R
+
+    /** 声明写入（默认 attachment），返回写入后的新版本 */
+    write<R extends RenderGraphResource>(resource: R, access?: TextureAccess): R
+
+    /** 有外部可见的副作用，不被剔除 */
+    sideEffect(): void
+}
+
+/**
+ * Pass 在 execute 中获取实际的 GPU 资源
+ */
+export interface RenderGraphResources {
+    /** 纹理（导入时未提供 GPUTexture 的资源抛出） */
+    getTexture(resource: RenderGraphTexture): GPUTexture
+    getTextureView(resource: RenderGraphTexture): GPUTextureView
+    getBuffer(resource: RenderGraphBuffer): GPUBuffer
+}
+
+/**
+ * 渲染图中的一个 Pass
+ * - setup 在构建渲染图时调用，声明读写的资源
+ * - execute 按拓扑顺序调用，录制到 RenderSystem 创建的 CommandEncoder；被剔除的 Pass 不执行
+ */
 export interface IRenderPass {
-    // 每个 Pass 接受 Encoder 和 Camera / Scene
-    execute(encoder: GPUCommandEncoder, scene: Scene, camera: ICamera): void
+    readonly name: string
+
+    setup(builder: RenderPassBuilder): void
 
-    // 可选：Pass 内部需要的资源
-    // 比如 Pipeline / UniformBuffer
-    initialize(device: GPUDevice): void
+    execute(encoder: GPUCommandEncoder, resources: RenderGraphResources): void
 }
@@ -1,9 +1,10 @@
 import { RenderContext } from "./RenderContext";
+import { RenderGraph } from "../../rendering/RenderGraph";
 
 /**
  * Renderer 接口
  * 根据 README 设计，Renderer 与 Camera 一一对应
- * Renderer 负责执行具体的渲染逻辑
+ * Renderer 是渲染图的构建者：为 Camera 向本帧的 RenderGraph 添加 Pass，由 RenderSystem 统一执行
  */
 export interface IRenderer {
     /** Renderer 类型标识 */
@@ -12,12 +13,12 @@ export interface IRenderer {
     readonly priority: number;
 
     /**
-     * 执行渲染
-     * @param commandEncoder GPU 命令编码器
+     * 构建渲染图
+     * @param graph 本帧的渲染图（所有 Camera 共享）
      * @param context 渲染上下文（包含 Camera、Scene、设备等信息）
      */
-    render(
-        commandEncoder: GPUCommandEncoder,
+    buildGraph(
+        graph: RenderGraph,
         context: RenderContext
     ): void;
 
@@ -1,14 +1,29 @@
+import { VertexLayout } from "../../assets/asset_types/MeshAsset"
+
+/**
+ * 子网格绘制范围
+ */
+export interface MeshDrawRange {
+    firstIndex: number
+    indexCount: number
+}
+
 /**
  * Mesh 表示一个可渲染的几何体
  */
 export interface Mesh {
     /** 顶点缓冲区 */
     vertexBuffer: GPUBuffer
+    /** 顶点布局（按语义描述，由 Renderer 映射到 shader location） */
+    layout: VertexLayout
     /** 索引缓冲区（可选） */
     indexBuffer?: GPUBuffer
+    /** 索引格式（默认 uint16） */
+    indexFormat?: GPUIndexFormat
     /** 索引数量 */
     indexCount: number
     /** 顶点数量 */
     vertexCount: number
+    /** 子网格（可选，未提供时整体绘制） */
+    subMeshes?: MeshDrawRange[]
 }
-
@@ -1,6 +1,14 @@
 import { ICamera } from "./ICamera";
 import { Scene } from "../../scene/Scene";
 
+/**
+ * 渲染目标的深度（/ 模板）附件
+ */
+export interface DepthStencilTarget {
+    view: GPUTextureView;
+    format: GPUTextureFormat;
+}
+
 /**
  * 渲染上下文，包含渲染所需的所有信息
  */
@@ -11,13 +19,19 @@ export interface RenderContext {
     scene: Scene;
     /** GPU 设备 */
     device: GPUDevice;
-    /** 渲染目标纹理视图 */
+    /** 渲染目标纹理视图（MSAA 时为多重采样纹理） */
     textureView: GPUTextureView;
+    /** MSAA 时 resolve 到的目标视图（不使用 MSAA 时为 null） */
+    resolveTarget: GPUTextureView | null;
     /** 渲染目标宽度 */
     width: number;
     /** 渲染目标高度 */
     height: number;
     /** 渲染目标格式 */
     format: GPUTextureFormat;
+    /** 深度（/ 模板）附件（渲染目标未启用深度时为 null） */
+    depthStencil: DepthStencilTarget | null;
+    /** 采样数（颜色与深度附件一致） */
+    sampleCount: number;
 }
 
@@ -1,7 +1,22 @@
+/**
+ * 多重采样数（1 表示不使用 MSAA）
+ */
+export type SampleCount = 1 | 4
+
 /**
  * RenderTarget 表示渲染目标，可以是 Canvas 或离屏 Texture
+ * - Canvas 的深度附件与采样数在注册时配置（CanvasContextOptions）
+ * - Texture 的深度附件由 RenderSystem 按 depthFormat 创建（默认 depth24plus，null 表示不使用深度）
+ * - sampleCount > 1 时渲染到多重采样纹理，再 resolve 到 Canvas / texture（Camera 可单独覆盖）
  */
 export type RenderTarget = 
     | { type: 'canvas'; canvasId: string }
-    | { type: 'texture'; texture: GPUTexture; width: number; height: number }
+    | {
+        type: 'texture'
+        texture: GPUTexture
+        width: number
+        height: number
+        depthFormat?: GPUTextureFormat | null
+        sampleCount?: SampleCount
+    }
 
@@ -20,4 +20,18 @@ interface GPUAdapter {
     requestAdapterInfo(): Promise<GPUAdapterInfo>;
 }
 
-type GPUPowerPreference = 'low-power' | 'high-performance';
\ No newline at end of file
+type GPUPowerPreference = 'low-power' | 'high-performance';
+// Compression Streams API（TypeScript 4.9 的 DOM lib 尚未包含）
+type CompressionFormat = 'deflate' | 'deflate-raw' | 'gzip';
+
+declare class CompressionStream {
+    constructor(format: CompressionFormat);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}
+
+declare class DecompressionStream {
+    constructor(format: CompressionFormat);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}
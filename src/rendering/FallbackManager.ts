@@ -1,113 +1,384 @@
 // Rendering/FallbackManager.ts
-import { ShaderHandle } from "../assets/AssetHandle";
-import { AssetType } from "../assets/AssetEnums";
-// import { GPUDevice } from "./types";
-import { ShaderModuleManager } from "./ShaderModuleManager";
+import { AssetState, AssetType } from "../assets/AssetEnums";
+import { MeshHandle, TextureHandle, createMeshHandle, createTextureHandle, freeHandle } from "../assets/AssetHandle";
+import { IAsset } from "../assets/asset_types/IAsset";
+import { MaterialAsset, createMaterialData } from "../assets/asset_types/MaterialAsset";
+import { MeshData, STANDARD_VERTEX_LAYOUT, VertexFormat, VertexLayout } from "../assets/asset_types/MeshAsset";
+import { TextureAsset, TextureData } from "../assets/asset_types/TextureAsset";
+import { PipelineManager, RenderTargetState, getTargetStateKey } from "../core/PipelineManager";
+import { MeshManager } from "./MeshManager";
+import { TextureManager } from "./TextureManager";
+import { TRANSFORM_UNIFORMS_BINDING, TransformUniforms } from "./TransformUniforms";
+import { ShaderStage, createBindGroupLayoutEntries, reflectWgsl } from "./WgslReflection";
+
+/** 回退着色器各阶段的入口函数 */
+export const FALLBACK_ENTRY_POINTS: Record<ShaderStage, string> = {
+    vertex: 'vs_main',
+    fragment: 'fs_main',
+    compute: 'cs_main',
+};
+
+// 顶点位置 → vec4 齐次坐标
+const POSITION_TO_VEC4: Record<VertexFormat, { type: string; expr: string }> = {
+    float32x2: { type: 'vec2<f32>', expr: 'vec4<f32>(position, 0.0, 1.0)' },
+    float32x3: { type: 'vec3<f32>', expr: 'vec4<f32>(position, 1.0)' },
+    float32x4: { type: 'vec4<f32>', expr: 'position' },
+};
+
+/**
+ * 回退顶点着色器：只读取 position，仍按相机 MVP 变换
+ * - Uniforms 由 TransformUniforms 生成，与 basic 着色器一致（group 0 / binding 0），BindGroup 可互换
+ */
+function createFallbackVertexShader(format: VertexFormat): string {
+    const { type, expr } = POSITION_TO_VEC4[format];
+    return `
+${TransformUniforms.toWgsl()}
+
+@group(0) @binding(0) var<uniform> ${TRANSFORM_UNIFORMS_BINDING}: ${TransformUniforms.name};
 
-// 基本的回退着色器代码
-const FALLBACK_VERTEX_SHADER = `
 @vertex
-fn main(
-    @location(0) position: vec3f
-) -> @builtin(position) vec4f {
-    return vec4f(position, 1.0);
+fn ${FALLBACK_ENTRY_POINTS.vertex}(@location(0) position: ${type}) -> @builtin(position) vec4<f32> {
+    let mvp = ${TRANSFORM_UNIFORMS_BINDING}.projection * ${TRANSFORM_UNIFORMS_BINDING}.view * ${TRANSFORM_UNIFORMS_BINDING}.model;
+    return mvp * ${expr};
 }
 `;
+}
 
+// "error pink"：醒目的洋红色
 const FALLBACK_FRAGMENT_SHADER = `
 @fragment
-fn main() -> @location(0) vec4f {
-    return vec4f(1.0, 0.5, 0.5, 1.0); // 粉红色
+fn ${FALLBACK_ENTRY_POINTS.fragment}() -> @location(0) vec4<f32> {
+    return vec4<f32>(1.0, 0.0, 1.0, 1.0);
+}
+`;
+
+const FALLBACK_COMPUTE_SHADER = `
+@compute @workgroup_size(1)
+fn ${FALLBACK_ENTRY_POINTS.compute}() {
 }
 `;
 
+/**
+ * 回退纹理
+ * - missing：洋红 / 黑棋盘格，引用的纹理不可用时使用
+ * - white / normal / black：材质未指定贴图时的中性值（normal 为切线空间的 +Z）
+ */
+export type FallbackTextureKind = 'missing' | 'white' | 'normal' | 'black';
+
+// 棋盘格尺寸（像素）与单格大小
+const CHECKERBOARD_SIZE = 64;
+const CHECKERBOARD_CELL = 8;
+
+function createCheckerboardTexture(): TextureData {
+    const pixels = new Uint8Array(CHECKERBOARD_SIZE * CHECKERBOARD_SIZE * 4);
+    for (let y = 0; y < CHECKERBOARD_SIZE; y++) {
+        for (let x = 0; x < CHECKERBOARD_SIZE; x++) {
+            const magenta = (Math.floor(x / CHECKERBOARD_CELL) + Math.floor(y / CHECKERBOARD_CELL)) % 2 === 0;
+            pixels.set(magenta ? [255, 0, 255, 255] : [0, 0, 0, 255], (y * CHECKERBOARD_SIZE + x) * 4);
+        }
+    }
+    return { width: CHECKERBOARD_SIZE, height: CHECKERBOARD_SIZE, pixels, colorSpace: 'srgb' };
+}
+
+function createFallbackTextureData(kind: FallbackTextureKind): TextureData {
+    switch (kind) {
+        case 'missing':
+            return createCheckerboardTexture();
+        case 'white':
+            return { width: 1, height: 1, pixels: new Uint8Array([255, 255, 255, 255]), colorSpace: 'srgb' };
+        case 'normal':
+            return { width: 1, height: 1, pixels: new Uint8Array([128, 128, 255, 255]), colorSpace: 'linear' };
+        case 'black':
+            return { width: 1, height: 1, pixels: new Uint8Array([0, 0, 0, 255]), colorSpace: 'srgb' };
+    }
+}
+
+// 立方体各面：法线与面内的两个轴（u × v = normal，保证逆时针为正面）
+const CUBE_FACES: [number, number, number][][] = [
+    [[1, 0, 0], [0, 0, -1], [0, 1, 0]],
+    [[-1, 0, 0], [0, 0, 1], [0, 1, 0]],
+    [[0, 1, 0], [1, 0, 0], [0, 0, -1]],
+    [[0, -1, 0], [1, 0, 0], [0, 0, 1]],
+    [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
+    [[0, 0, -1], [-1, 0, 0], [0, 1, 0]],
+];
+
+/**
+ * 边长为 1、以原点为中心的立方体（STANDARD_VERTEX_LAYOUT，每面 4 个顶点）
+ */
+function createUnitCube(): MeshData {
+    const floatsPerVertex = STANDARD_VERTEX_LAYOUT.arrayStride / 4;
+    const vertices = new Float32Array(CUBE_FACES.length * 4 * floatsPerVertex);
+    const indices = new Uint16Array(CUBE_FACES.length * 6);
+    const corners: [number, number][] = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+
+    CUBE_FACES.forEach(([normal, u, v], face) => {
+        corners.forEach(([su, sv], corner) => {
+            const position = [0, 1, 2].map(i => (normal[i] + su * u[i] + sv * v[i]) * 0.5);
+            const uv = [(su + 1) / 2, (1 - sv) / 2];
+            vertices.set([...position, ...normal, ...uv, 1, 1, 1, 1], (face * 4 + corner) * floatsPerVertex);
+        });
+        const base = face * 4;
+        indices.set([base, base + 1, base + 2, base, base + 2, base + 3], face * 6);
+    });
+
+    return {
+        vertices,
+        vertexCount: CUBE_FACES.length * 4,
+        layout: STANDARD_VERTEX_LAYOUT,
+        indices,
+        subMeshes: [{ firstIndex: 0, indexCount: indices.length, material: null }],
+    };
+}
+
+/**
+ * 回退渲染管线及其 BindGroupLayout（下标即 group）
+ */
+export interface FallbackPipeline {
+    pipeline: GPURenderPipeline;
+    bindGroupLayouts: GPUBindGroupLayout[];
+}
+
+/**
+ * FallbackManager 提供资源不可用时的替代品
+ * - 着色器回退按阶段与顶点布局区分；内置源码直接由 Device 编译，不经过 ShaderLibrary 的编译检查
+ * - 回退管线适用于任意含 position 的顶点布局，用于真实管线编译中或编译失败时
+ * - 纹理 / 网格 / 材质的回退按需生成一次，在同一 Device 上共享，引用的 Asset 未 Ready 时使用
+ */
 export class FallbackManager {
     private readonly device: GPUDevice;
-    private readonly shaderModules: ShaderModuleManager;
-    private fallbackShaderHandles: Map<string, ShaderHandle> = new Map();
-    private fallbackShaderCount = 0;
+    private readonly pipelineManager: PipelineManager;
+    private readonly textures: TextureManager;
+    private readonly meshes: MeshManager;
+    // `${stage}` 或 `vertex:${position format}` → 模块
+    private fallbackShaders: Map<string, GPUShaderModule> = new Map();
+    // 管线 key → 回退管线
+    private fallbackPipelines: Map<string, FallbackPipeline> = new Map();
+    private fallbackTextures: Map<FallbackTextureKind, TextureHandle> = new Map();
+    private fallbackMesh: MeshHandle | null = null;
+    private fallbackMaterial: MaterialAsset | null = null;
 
-    constructor(device: GPUDevice, shaderModules: ShaderModuleManager) {
+    constructor(device: GPUDevice, pipelineManager: PipelineManager, textures: TextureManager, meshes: MeshManager) {
         this.device = device;
-        this.shaderModules = shaderModules;
+        this.pipelineManager = pipelineManager;
+        this.textures = textures;
+        this.meshes = meshes;
     }
 
     /**
      * 获取指定类型资源的回退版本
+     * - 着色器的回退取决于阶段与顶点布局，使用 getFallbackShader / getFallbackPipeline
      * @param assetType 资源类型
-     * @param originalHandle 原始资源的句柄（用于创建回退资源的标识）
-     * @returns 回退资源的句柄
+     * @returns 纹理 / 网格为已上传的句柄，材质为 Ready 的 MaterialAsset
      */
-    getFallbackResource(assetType: AssetType, originalHandle: any): any {
+    getFallbackResource(assetType: AssetType): TextureHandle | MeshHandle | MaterialAsset {
         switch (assetType) {
-            case AssetType.Shader:
-                return this.getFallbackShader(originalHandle);
             case AssetType.Texture:
-                return this.getFallbackTexture(originalHandle);
+                return this.getFallbackTexture();
             case AssetType.Mesh:
-                return this.getFallbackMesh(originalHandle);
+                return this.getFallbackMesh();
             case AssetType.Material:
-                return this.getFallbackMaterial(originalHandle);
+                return this.getFallbackMaterial();
             default:
                 throw new Error(`No fallback available for asset type: ${assetType}`);
         }
     }
 
     /**
-     * 获取着色器资源的回退版本
+     * 获取指定阶段的回退着色器模块
+     * @param layout 顶点阶段必需：回退着色器按 position 的格式声明输入
+     * @returns 顶点布局没有 position 时返回 null
      */
-    private getFallbackShader(originalHandle: ShaderHandle): ShaderHandle {
-        const key = `fallback-shader-${originalHandle.id}`;
-        if (this.fallbackShaderHandles.has(key)) {
-            return this.fallbackShaderHandles.get(key)!;
+    getFallbackShader(stage: ShaderStage, layout?: VertexLayout): GPUShaderModule | null {
+        let key: string = stage;
+        let code: string;
+        switch (stage) {
+            case 'vertex': {
+                const position = layout?.attributes.find(a => a.semantic === 'position');
+                if (!position) {
+                    return null;
+                }
+                key = `vertex:${position.format}`;
+                code = createFallbackVertexShader(position.format);
+                break;
+            }
+            case 'fragment':
+                code = FALLBACK_FRAGMENT_SHADER;
+                break;
+            case 'compute':
+                code = FALLBACK_COMPUTE_SHADER;
+                break;
         }
 
-        // 创建新的回退着色器句柄
-        const fallbackHandle: ShaderHandle = { id: ++this.fallbackShaderCount };
+        let module = this.fallbackShaders.get(key);
+        if (!module) {
+            module = this.device.createShaderModule({ label: `fallback ${key}`, code });
+            this.fallbackShaders.set(key, module);
+        }
+        return module;
+    }
 
-        // 根据原始着色器的用途选择合适的回退着色器
-        const isVertexShader = originalHandle.id % 2 === 0; // 简单判断
-        const fallbackCode = isVertexShader ? FALLBACK_VERTEX_SHADER : FALLBACK_FRAGMENT_SHADER;
+    /**
+     * 获取 "error pink" 回退管线：按相机 MVP 绘制洋红色
+     * - 仅使用 position，其余属性保留在 stride 中但不声明
+     * @param target 渲染目标的颜色 / 深度格式与采样数
+     * @returns 顶点布局没有 position 时返回 null
+     */
+    getFallbackPipeline(target: RenderTargetState, layout: VertexLayout): FallbackPipeline | null {
+        const position = layout.attributes.find(a => a.semantic === 'position');
+        if (!position) {
+            return null;
+        }
 
-        // 创建GPU着色器模块
-        this.shaderModules.createShaderModule(fallbackHandle, fallbackCode);
+        const key = `fallback_${getTargetStateKey(target)}_${layout.arrayStride}_${position.offset}:${position.format}`;
+        let fallback = this.fallbackPipelines.get(key);
+        if (fallback) {
+            return fallback;
+        }
+
+        const vertexModule = this.getFallbackShader('vertex', layout)!;
+        const fragmentModule = this.getFallbackShader('fragment')!;
+        const vertexReflection = reflectWgsl(createFallbackVertexShader(position.format));
+        const groups = createBindGroupLayoutEntries([
+            { reflection: vertexReflection, stage: 'vertex', entryPoint: FALLBACK_ENTRY_POINTS.vertex },
+        ], [TRANSFORM_UNIFORMS_BINDING]);
+
+        const pipeline = this.pipelineManager.getOrCreate(key, () => ({
+            label: key,
+            layout: this.pipelineManager.getPipelineLayout(groups),
+            vertex: {
+                module: vertexModule,
+                entryPoint: FALLBACK_ENTRY_POINTS.vertex,
+                buffers: [{
+                    arrayStride: layout.arrayStride,
+                    attributes: [{ shaderLocation: 0, offset: position.offset, format: position.format }],
+                }],
+            },
+            fragment: {
+                module: fragmentModule,
+                entryPoint: FALLBACK_ENTRY_POINTS.fragment,
+                targets: [{ format: target.format }],
+            },
+            primitive: {
+                topology: 'triangle-list',
+                // 双面可见，便于发现问题
+                cullMode: 'none',
+            },
+            depthStencil: target.depthFormat ? {
+                format: target.depthFormat,
+                depthWriteEnabled: true,
+                depthCompare: 'less',
+            } : undefined,
+            multisample: { count: target.sampleCount },
+        }));
+
+        fallback = {
+            pipeline,
+            bindGroupLayouts: groups.map(entries => this.pipelineManager.getBindGroupLayout(entries)),
+        };
+        this.fallbackPipelines.set(key, fallback);
+        return fallback;
+    }
+
+    /**
+     * 获取回退纹理（已上传，可直接由 TextureManager 查找）
+     */
+    getFallbackTexture(kind: FallbackTextureKind = 'missing'): TextureHandle {
+        let handle = this.fallbackTextures.get(kind);
+        if (!handle) {
+            handle = createTextureHandle(`fallback ${kind}`);
+            this.textures.createTexture(handle, createFallbackTextureData(kind));
+            this.fallbackTextures.set(kind, handle);
+        }
+        return handle;
+    }
+
+    /**
+     * 获取回退网格：单位立方体占位
+     */
+    getFallbackMesh(): MeshHandle {
+        if (!this.fallbackMesh) {
+            this.fallbackMesh = createMeshHandle('fallback cube');
+            this.meshes.createMesh(this.fallbackMesh, createUnitCube());
+        }
+        return this.fallbackMesh;
+    }
 
-        // 存储回退句柄
-        this.fallbackShaderHandles.set(key, fallbackHandle);
+    /**
+     * 获取回退材质：白色、无贴图的默认 unlit 材质
+     */
+    getFallbackMaterial(): MaterialAsset {
+        if (!this.fallbackMaterial) {
+            this.fallbackMaterial = new MaterialAsset('fallback:default-unlit', createMaterialData({
+                name: 'DefaultUnlit',
+                metallicFactor: 0,
+                roughnessFactor: 1,
+            }));
+        }
+        return this.fallbackMaterial;
+    }
 
-        return fallbackHandle;
+    /**
+     * 纹理引用 → 可用的 TextureHandle
+     * @param asset 未指定贴图时为 null，此时使用 unset 对应的中性纹理
+     * @param unset 未指定贴图时的回退（如法线贴图使用 normal）
+     */
+    resolveTexture(asset: TextureAsset | null, unset: FallbackTextureKind = 'white'): TextureHandle {
+        if (!asset) {
+            return this.getFallbackTexture(unset);
+        }
+        if (this.needsFallback(asset) || !this.textures.get(asset.handle)) {
+            return this.getFallbackTexture('missing');
+        }
+        return asset.handle;
     }
 
     /**
-     * 获取纹理资源的回退版本
+     * 网格句柄 → 可用的 MeshHandle（尚未上传时使用立方体占位）
      */
-    private getFallbackTexture(originalHandle: any): any {
-        // TODO: 实现回退纹理
-        return null;
+    resolveMesh(handle: MeshHandle): MeshHandle {
+        return this.meshes.get(handle) ? handle : this.getFallbackMesh();
     }
 
     /**
-     * 获取网格资源的回退版本
+     * 材质引用 → 可用的材质（未指定或未 Ready 时使用默认材质）
      */
-    private getFallbackMesh(originalHandle: any): any {
-        // TODO: 实现回退网格
-        return null;
+    resolveMaterial(asset: MaterialAsset | null): MaterialAsset {
+        return asset && !this.needsFallback(asset) ? asset : this.getFallbackMaterial();
     }
 
     /**
-     * 获取材质资源的回退版本
+     * 销毁所有回退资源
      */
-    private getFallbackMaterial(originalHandle: any): any {
-        // TODO: 实现回退材质
-        return null;
+    dispose(): void {
+        // GPUShaderModule 没有 destroy，移除引用即可
+        for (const key of this.fallbackPipelines.keys()) {
+            this.pipelineManager.remove(key);
+        }
+        this.fallbackPipelines.clear();
+        this.fallbackShaders.clear();
+
+        for (const handle of this.fallbackTextures.values()) {
+            this.textures.destroy(handle);
+            freeHandle(handle);
+        }
+        this.fallbackTextures.clear();
+
+        if (this.fallbackMesh) {
+            this.meshes.destroy(this.fallbackMesh);
+            freeHandle(this.fallbackMesh);
+            this.fallbackMesh = null;
+        }
+        this.fallbackMaterial?.getCPUData()?.dispose();
+        this.fallbackMaterial = null;
     }
 
     /**
      * 检查资源是否需要使用回退
      * @param asset 要检查的资源
-     * @returns 如果资源需要回退则返回true
+     * @returns 资源不存在或尚未 Ready（Unloaded / Loading / Failed）时返回 true
      */
-    public needsFallback(asset: any): boolean {
-        return asset && (asset.state === "failed" || asset.state === "unloaded" || !asset);
+    public needsFallback(asset: IAsset | null | undefined): boolean {
+        return !asset || asset.state !== AssetState.Ready;
     }
 }
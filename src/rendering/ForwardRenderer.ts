@@ -1,11 +1,64 @@
 import { IRenderer } from "../core/types/IRenderer";
 import { RenderContext } from "../core/types/RenderContext";
 import { PerspectiveCamera } from "../core/Camera";
-import { mat4 } from "gl-matrix";
+import { mat4, vec3 } from "gl-matrix";
 import { BufferManager } from "../core/BufferManager";
-import { PipelineManager } from "../core/PipelineManager";
+import { PipelineManager, RenderTargetState, getHandleKey, getTargetStateKey } from "../core/PipelineManager";
 import { CanvasManager } from "../core/CanvasManager";
-import { ResourceManager } from "../core/ResourceManager";
+import { ShaderLibrary } from "./ShaderLibrary";
+import { MeshManager } from "./MeshManager";
+import { Renderable, RenderableMaterial } from "./Renderable";
+import { Mesh, MeshDrawRange } from "../core/types/Mesh";
+import { VertexLayout } from "../assets/asset_types/MeshAsset";
+import { describeHandle } from "../assets/AssetHandle";
+import { ShaderBinding, ShaderReflection, ShaderStruct, createBindGroupLayoutEntries } from "./WgslReflection";
+import { createVertexBufferLayout } from "./VertexInputLayout";
+import { FallbackManager } from "./FallbackManager";
+import { TRANSFORM_UNIFORMS_BINDING, TransformUniforms } from "./TransformUniforms";
+import { UniformRingBuffer } from "./UniformRingBuffer";
+import { hasStencil } from "../core/DepthBuffer";
+import { StructLayoutError } from "./StructLayout";
+import { RenderGraph } from "./RenderGraph";
+import { MATERIAL_BIND_GROUP, Material, getBlendState, getRenderStateKey } from "./Material";
+import { MaterialManager } from "./MaterialManager";
+
+/** 一次绘制：子网格（非索引网格为 null）及其材质 */
+interface DrawItem {
+    mesh: Mesh;
+    material: Material;
+    transform: mat4;
+    range: MeshDrawRange | null;
+}
+
+/** 管线的绑定信息（由着色器反射得到） */
+interface PipelineBindings {
+    /** 下标即 group */
+    bindGroupLayouts: GPUBindGroupLayout[];
+    /** 材质 group 中的绑定（按 binding 排序），回退管线为空 */
+    materialBindings: ShaderBinding[];
+    structs: Record<string, ShaderStruct>;
+}
+
+/** 管线及其绑定信息 */
+interface BoundPipeline {
+    pipeline: GPURenderPipeline;
+    bindings: PipelineBindings;
+}
+
+/**
+ * 各阶段入口函数使用的材质 group 绑定（同一绑定只取一次）
+ */
+function getMaterialBindings(stages: { reflection: ShaderReflection; entryPoint: string }[]): ShaderBinding[] {
+    const bindings = new Map<number, ShaderBinding>();
+    for (const { reflection, entryPoint } of stages) {
+        for (const binding of reflection.bindings) {
+            if (binding.group === MATERIAL_BIND_GROUP && binding.entryPoints.includes(entryPoint)) {
+                bindings.set(binding.binding, bindings.get(binding.binding) ?? binding);
+            }
+        }
+    }
+    return [...bindings.values()].sort((a, b) => a.binding - b.binding);
+}
 
 /**
  * 基础前向渲染器
@@ -26,112 +79,144 @@ export class ForwardRenderer implements IRenderer {
     protected readonly bufferManager: BufferManager;
     protected readonly pipelineManager: PipelineManager;
     protected readonly canvasManager: CanvasManager;
-    protected readonly resourceManager: ResourceManager;
+    protected readonly shaders: ShaderLibrary;
+    protected readonly meshManager: MeshManager;
+    protected readonly fallbacks: FallbackManager;
+    protected readonly uniforms: UniformRingBuffer;
+    protected readonly materials: MaterialManager;
 
-    private _uniformBuffer: GPUBuffer | null = null;
+    // 已报告过的管线创建错误（避免每帧重复输出）
+    private _reportedErrors = new Set<string>();
 
     constructor(
         device: GPUDevice,  // 共享的 Device（由 RenderSystem 提供）
         bufferManager: BufferManager,  // 共享的资源管理器
         pipelineManager: PipelineManager,
         canvasManager: CanvasManager,
-        resourceManager: ResourceManager,
+        shaders: ShaderLibrary,
+        meshManager: MeshManager,
+        fallbacks: FallbackManager,
+        uniforms: UniformRingBuffer,
+        materials: MaterialManager,
     ) {
         this.device = device;
         this.bufferManager = bufferManager;
         this.pipelineManager = pipelineManager;
         this.canvasManager = canvasManager;
-        this.resourceManager = resourceManager;
+        this.shaders = shaders;
+        this.meshManager = meshManager;
+        this.fallbacks = fallbacks;
+        this.uniforms = uniforms;
+        this.materials = materials;
     }
 
     /**
-     * 执行渲染（IRenderer 接口）
+     * 构建渲染图（IRenderer 接口）
+     * - 导入颜色 / resolve / 深度附件，添加一个写入它们的前向 Pass
      */
-    render(
-        commandEncoder: GPUCommandEncoder,
+    buildGraph(
+        graph: RenderGraph,
         context: RenderContext
     ): void {
-        const { camera, textureView, width, height, format } = context;
+        const { camera, textureView, resolveTarget, width, height, depthStencil } = context;
 
         // 更新 Camera 的宽高比
         if (camera instanceof PerspectiveCamera) {
             camera.updateAspect(width / height);
         }
 
-        // 获取或创建渲染管线
-        const pipelineKey = `basic_${format}`;
-        let pipeline = this.pipelineManager.get(pipelineKey);
-        
-        // 如果管线尚未创建且不在创建队列中，则异步创建
-        if (!pipeline && !this.pipelineManager.has(pipelineKey)) {
-            // 异步创建管线，但不阻塞渲染循环
-            this.pipelineManager.getOrCreateAsync(pipelineKey, () => 
-                this.createRenderPipelineDescriptor(format)
-            ).catch(err => {
-                console.error(`Failed to create pipeline ${pipelineKey}:`, err);
-            });
-        }
-        
-        // 如果管线尚未就绪，跳过渲染
-        if (!pipeline) {
-            return;
-        }
+        const color = graph.importTexture('Color', textureView);
+        const resolve = resolveTarget ? graph.importTexture('Resolve', resolveTarget) : null;
+        const depth = depthStencil ? graph.importTexture('Depth', depthStencil.view) : null;
 
-        // 创建 uniform buffer（存储 MVP 矩阵）
-        if (!this._uniformBuffer) {
-            this._uniformBuffer = this.bufferManager.createUniformBuffer(
-                16 * 4 * 3, // 3 个 mat4 (model, view, projection)
-                'MVP Uniform Buffer'
-            );
-        }
+        graph.addPass({
+            name: 'Forward',
+            setup: builder => {
+                builder.write(color);
+                if (resolve) {
+                    builder.write(resolve);
+                }
+                if (depth) {
+                    builder.write(depth);
+                }
+            },
+            execute: (encoder, resources) => this.recordForwardPass(encoder, context, {
+                color: resources.getTextureView(color),
+                resolve: resolve ? resources.getTextureView(resolve) : null,
+                depth: depth ? resources.getTextureView(depth) : null,
+            }),
+        });
+    }
+
+    /**
+     * 录制前向渲染通道
+     */
+    private recordForwardPass(
+        commandEncoder: GPUCommandEncoder,
+        context: RenderContext,
+        views: { color: GPUTextureView; resolve: GPUTextureView | null; depth: GPUTextureView | null }
+    ): void {
+        const { camera, format, depthStencil, sampleCount } = context;
+        // 管线需匹配附件的格式与采样数
+        const targetState: RenderTargetState = { format, depthFormat: depthStencil?.format ?? null, sampleCount };
 
         // 开始渲染通道
         const renderPassDescriptor: GPURenderPassDescriptor = {
             colorAttachments: [{
-                view: textureView,
+                view: views.color,
+                resolveTarget: views.resolve ?? undefined,
                 clearValue: { r: 0.1, g: 0.1, b: 0.1, a: 1.0 },
                 loadOp: 'clear',
                 storeOp: 'store',
             }]
         };
+        if (depthStencil && views.depth) {
+            renderPassDescriptor.depthStencilAttachment = {
+                view: views.depth,
+                depthClearValue: 1.0,
+                depthLoadOp: 'clear',
+                depthStoreOp: 'store',
+                ...(hasStencil(depthStencil.format) ? {
+                    stencilClearValue: 0,
+                    stencilLoadOp: 'clear',
+                    stencilStoreOp: 'store',
+                } : {}),
+            };
+        }
 
         const passEncoder = commandEncoder.beginRenderPass(renderPassDescriptor);
-        passEncoder.setPipeline(pipeline);
 
         // 渲染场景中的所有 Renderable
         const viewMatrix = camera.getViewMatrix();
         const projectionMatrix = camera.getProjectionMatrix();
 
-        for (const renderable of camera.scene.renderables) {
-            const modelMatrix = renderable.getTransform();
-
-            // 更新 uniform buffer
-            const uniformData = new Float32Array(16 * 3);
-            uniformData.set(modelMatrix, 0);
-            uniformData.set(viewMatrix, 16);
-            uniformData.set(projectionMatrix, 32);
-
-            this.device.queue.writeBuffer(this._uniformBuffer!, 0, uniformData);
-
-            // 设置绑定组
-            const bindGroup = this.device.createBindGroup({
-                layout: pipeline.getBindGroupLayout(0),
-                entries: [{
-                    binding: 0,
-                    resource: {
-                        buffer: this._uniformBuffer!,
-                    }
-                }]
+        for (const { mesh, material, transform, range } of this.collectDraws(camera.scene.renderables, viewMatrix)) {
+            // 管线由材质状态、顶点布局与渲染目标决定；着色器编译中、失败或材质无法绑定时使用回退管线
+            let bound = this.getPipeline(targetState, material, mesh);
+            if (bound && !this.setMaterialBindGroup(passEncoder, bound.bindings, material)) {
+                bound = null;
+            }
+            bound = bound ?? this.getFallbackPipeline(targetState, mesh.layout);
+            if (!bound) {
+                continue;
+            }
+            passEncoder.setPipeline(bound.pipeline);
+
+            // 每次绘制分配独立的 uniform 区域，共享同一个绑定组（动态偏移）
+            const uniformOffset = this.uniforms.allocate(TransformUniforms, {
+                model: transform,
+                view: viewMatrix,
+                projection: projectionMatrix,
             });
+            const bindGroup = this.uniforms.getBindGroup(bound.bindings.bindGroupLayouts[0], TransformUniforms.size);
 
-            passEncoder.setBindGroup(0, bindGroup);
+            passEncoder.setBindGroup(0, bindGroup, [uniformOffset]);
 
-            // 绘制
-            const mesh = renderable.mesh;
+            // 绘制（子网格各自使用其材质）
             passEncoder.setVertexBuffer(0, mesh.vertexBuffer);
-            if (mesh.indexBuffer) {
-                passEncoder.setIndexBuffer(mesh.indexBuffer, 'uint16');
-                passEncoder.drawIndexed(mesh.indexCount);
+            if (mesh.indexBuffer && range) {
+                passEncoder.setIndexBuffer(mesh.indexBuffer, mesh.indexFormat ?? 'uint16');
+                passEncoder.drawIndexed(range.indexCount, 1, range.firstIndex);
             } else {
                 passEncoder.draw(mesh.vertexCount);
             }
@@ -141,143 +226,219 @@ export class ForwardRenderer implements IRenderer {
     }
 
     /**
-     * 创建默认的顶点着色器模块（用于加载失败时的 fallback）
+     * 展开为逐子网格的绘制
+     * - 不透明的先绘制（场景顺序），混合的在后并按视空间深度从远到近排序
      */
-    private createDefaultVertexShaderModule(): GPUShaderModule {
-        return this.device.createShaderModule({
-            code: `
-                struct Uniforms {
-                    model: mat4x4<f32>,
-                    view: mat4x4<f32>,
-                    projection: mat4x4<f32>,
-                }
-                @group(0) @binding(0) var<uniform> uniforms: Uniforms;
-
-                struct VertexInput {
-                    @location(0) position: vec3<f32>,
-                    @location(1) color: vec4<f32>,
-                }
-
-                struct VertexOutput {
-                    @builtin(position) position: vec4<f32>,
-                    @location(0) color: vec4<f32>,
+    private collectDraws(renderables: Iterable<Renderable>, viewMatrix: mat4): DrawItem[] {
+        const opaque: DrawItem[] = [];
+        const blended: { item: DrawItem; depth: number }[] = [];
+
+        for (const renderable of renderables) {
+            // Mesh 尚未上传时使用占位网格
+            const mesh = this.resolveMesh(renderable);
+            if (!mesh) {
+                continue;
+            }
+            const transform = renderable.getTransform();
+            const ranges: (MeshDrawRange | null)[] = mesh.indexBuffer
+                ? mesh.subMeshes ?? [{ firstIndex: 0, indexCount: mesh.indexCount }]
+                : [null];
+
+            ranges.forEach((range, i) => {
+                const item = { mesh, material: this.resolveMaterial(renderable.getMaterial(i)), transform, range };
+                if (item.material.renderState.blendMode === 'opaque') {
+                    opaque.push(item);
+                } else {
+                    // 相机看向 -Z，越远越小
+                    const origin = vec3.transformMat4(vec3.create(), [transform[12], transform[13], transform[14]], viewMatrix);
+                    blended.push({ item, depth: origin[2] });
                 }
+            });
+        }
 
-                @vertex
-                fn vs_main(input: VertexInput) -> VertexOutput {
-                    var output: VertexOutput;
-                    let mvp = uniforms.projection * uniforms.view * uniforms.model;
-                    output.position = mvp * vec4<f32>(input.position, 1.0);
-                    output.color = input.color;
-                    return output;
-                }
-            `
-        });
+        blended.sort((a, b) => a.depth - b.depth);
+        return [...opaque, ...blended.map(entry => entry.item)];
     }
 
     /**
-     * 创建默认的片段着色器模块（用于加载失败时的 fallback）
+     * 获取 Renderable 对应的 GPU Mesh（MeshHandle 尚未上传时使用回退网格）
      */
-    private createDefaultFragmentShaderModule(): GPUShaderModule {
-        return this.device.createShaderModule({
-            code: `
-                struct VertexOutput {
-                    @builtin(position) position: vec4<f32>,
-                    @location(0) color: vec4<f32>,
-                }
+    private resolveMesh(renderable: Renderable): Mesh | null {
+        const mesh = renderable.mesh;
+        if ('vertexBuffer' in mesh) {
+            return mesh;
+        }
+        return this.meshManager.get(this.fallbacks.resolveMesh(mesh)) ?? null;
+    }
 
-                @fragment
-                fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
-                    return input.color;
-                }
-            `
-        });
+    /**
+     * 材质引用 → 可用的 Material（MaterialAsset 未 Ready、未指定或已释放时使用默认材质）
+     */
+    private resolveMaterial(material: RenderableMaterial): Material {
+        const resolved = material instanceof Material ? material : this.fallbacks.resolveMaterial(material).getCPUData()!;
+        return resolved.disposed ? this.fallbacks.getFallbackMaterial().getCPUData()! : resolved;
     }
 
     /**
-     * 清理资源
+     * 设置材质的 BindGroup（管线没有材质 group 时不设置）
+     * @returns 材质无法绑定时返回 false（已报告错误）
      */
-    dispose(): void {
-        // 清理 uniform buffer 等资源
-        // 注意：由于资源是共享的，这里只清理 Renderer 自己创建的资源
-        this._uniformBuffer = null;
+    private setMaterialBindGroup(passEncoder: GPURenderPassEncoder, bindings: PipelineBindings, material: Material): boolean {
+        const { bindGroupLayouts, materialBindings, structs } = bindings;
+        const layout = bindGroupLayouts[MATERIAL_BIND_GROUP];
+        if (!layout) {
+            return true;
+        }
+        try {
+            passEncoder.setBindGroup(MATERIAL_BIND_GROUP, this.materials.getBindGroup(material, layout, materialBindings, structs));
+            return true;
+        } catch (err) {
+            this.reportError(`Failed to bind material ${material.name}:`, err);
+            return false;
+        }
     }
 
     /**
-     * 创建渲染管线描述符
+     * 获取渲染管线（着色器尚未就绪时返回 null）
+     * - 模块与入口函数由 ShaderLibrary 提供；着色器重新编译后管线随之失效重建
+     * - 材质的宏与顶点布局推导出的宏（有无顶点色 / UV）一起选择变体，各变体的管线分别缓存
+     * - 混合、剔除、深度测试 / 写入与图元拓扑取自材质的渲染状态，使用相同着色器与状态的材质共享管线
+     * - 渲染目标有深度附件时才使用深度状态；不同格式 / 采样数的管线分别缓存
      */
-    private async createRenderPipelineDescriptor(format: GPUTextureFormat): Promise<GPURenderPipelineDescriptor> {
-        const vsModule = await this.resourceManager.getShaderManager()?.loadVertexShader('../shaders/basic.vert.wgsl') || 
-            this.createDefaultVertexShaderModule();
-        const fsModule = await this.resourceManager.getShaderManager()?.loadFragmentShader('../shaders/basic.frag.wgsl') || 
-            this.createDefaultFragmentShaderModule();
-        // const vsModule = this.device.createShaderModule({
-        //     code: `
-        //         struct Uniforms {
-        //             model: mat4x4<f32>,
-        //             view: mat4x4<f32>,
-        //             projection: mat4x4<f32>,
-        //         }
-        //         @group(0) @binding(0) var<uniform> uniforms: Uniforms;
-
-        //         struct VertexInput {
-        //             @location(0) position: vec3<f32>,
-        //             @location(1) color: vec4<f32>,
-        //         }
-
-        //         struct VertexOutput {
-        //             @builtin(position) position: vec4<f32>,
-        //             @location(0) color: vec4<f32>,
-        //         }
-
-        //         @vertex
-        //         fn vs_main(input: VertexInput) -> VertexOutput {
-        //             var output: VertexOutput;
-        //             let mvp = uniforms.projection * uniforms.view * uniforms.model;
-        //             output.position = mvp * vec4<f32>(input.position, 1.0);
-        //             output.color = input.color;
-        //             return output;
-        //         }
-        //     `
-        // });
-
-        // const fsModule = this.device.createShaderModule({
-        //     code: `
-        //         struct VertexOutput {
-        //             @builtin(position) position: vec4<f32>,
-        //             @location(0) color: vec4<f32>,
-        //         }
-
-        //         @fragment
-        //         fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
-        //             return input.color;
-        //         }
-        //     `
-        // });
+    private getPipeline(target: RenderTargetState, material: Material, mesh: Mesh): BoundPipeline | null {
+        const layout = mesh.layout;
+        const state = material.renderState;
+        const defines = {
+            ...material.shader.defines,
+            HAS_VERTEX_COLOR: layout.attributes.some(a => a.semantic === 'color'),
+            HAS_UV: layout.attributes.some(a => a.semantic === 'uv'),
+        };
+        const vertexShader = this.shaders.getVariant(this.shaders.request(material.shader.vertex), defines);
+        const fragmentShader = this.shaders.getVariant(this.shaders.request(material.shader.fragment), defines);
+        // 编译中或编译失败的着色器不生成管线
+        if (!vertexShader || !fragmentShader
+            || this.shaders.needsFallback(vertexShader) || this.shaders.needsFallback(fragmentShader)) {
+            return null;
+        }
+        const vertexModule = this.shaders.get(vertexShader);
+        const fragmentModule = this.shaders.get(fragmentShader);
+        const vertexEntry = this.shaders.getEntryPoint(vertexShader, 'vertex');
+        const fragmentEntry = this.shaders.getEntryPoint(fragmentShader, 'fragment');
+        if (!vertexModule || !fragmentModule || !vertexEntry || !fragmentEntry) {
+            return null;
+        }
 
+        // strip 拓扑的索引绘制需要声明索引格式
+        const isStrip = state.topology === 'line-strip' || state.topology === 'triangle-strip';
+        const stripIndexFormat = isStrip && mesh.indexBuffer ? mesh.indexFormat ?? 'uint16' : undefined;
+
+        const layoutKey = layout.attributes
+            .map(a => `${a.semantic}@${a.offset}:${a.format}`)
+            .join(',');
+        const pipelineKey = `material_${getHandleKey(vertexShader)}_${getHandleKey(fragmentShader)}_${getRenderStateKey(state)}` +
+            `_${stripIndexFormat ?? 'list'}_${getTargetStateKey(target)}_${layout.arrayStride}_${layoutKey}`;
+
+        try {
+            // 绑定信息与管线一起缓存在 PipelineManager 中（其他渲染器取到同一管线时也能得到）
+            const { pipeline, info } = this.pipelineManager.getOrCreateWithInfo<PipelineBindings>(pipelineKey, () => {
+                // 布局由着色器反射生成：顶点输入校验 Mesh 布局，资源绑定生成显式的 PipelineLayout
+                const vertexReflection = this.shaders.getReflection(vertexShader)!;
+                const fragmentReflection = this.shaders.getReflection(fragmentShader)!;
+                const groups = createBindGroupLayoutEntries([
+                    { reflection: vertexReflection, stage: 'vertex', entryPoint: vertexEntry },
+                    { reflection: fragmentReflection, stage: 'fragment', entryPoint: fragmentEntry },
+                ], [TRANSFORM_UNIFORMS_BINDING]);
+                if (groups.length > MATERIAL_BIND_GROUP + 1) {
+                    throw new Error(
+                        `Shader uses @group(${groups.length - 1}), only group 0 (transform) and group ${MATERIAL_BIND_GROUP} (material) are bound`
+                    );
+                }
+                // CPU 侧写入的 Uniforms 必须与着色器中的声明一致
+                const uniformProblems = TransformUniforms.findMismatches(vertexReflection.structs[TransformUniforms.name]);
+                if (uniformProblems.length > 0) {
+                    throw new StructLayoutError(`${TransformUniforms.name} (${describeHandle(vertexShader)})`, uniformProblems);
+                }
+                const buffer = createVertexBufferLayout(
+                    layout,
+                    vertexReflection.vertexInputs[vertexEntry],
+                    `${describeHandle(vertexShader)} (${vertexEntry})`
+                );
+
+                const descriptor: GPURenderPipelineDescriptor = {
+                    layout: this.pipelineManager.getPipelineLayout(groups),
+                    vertex: {
+                        module: vertexModule,
+                        entryPoint: vertexEntry,
+                        buffers: [buffer]
+                    },
+                    fragment: {
+                        module: fragmentModule,
+                        entryPoint: fragmentEntry,
+                        targets: [{ format: target.format, blend: getBlendState(state.blendMode) }]
+                    },
+                    primitive: {
+                        topology: state.topology,
+                        stripIndexFormat,
+                        cullMode: state.cullMode,
+                    },
+                    depthStencil: target.depthFormat ? {
+                        format: target.depthFormat,
+                        depthWriteEnabled: state.depthWrite,
+                        depthCompare: state.depthTest ? 'less' : 'always',
+                    } : undefined,
+                    multisample: { count: target.sampleCount },
+                };
+                const bindings: PipelineBindings = {
+                    bindGroupLayouts: groups.map(entries => this.pipelineManager.getBindGroupLayout(entries)),
+                    materialBindings: getMaterialBindings([
+                        { reflection: vertexReflection, entryPoint: vertexEntry },
+                        { reflection: fragmentReflection, entryPoint: fragmentEntry },
+                    ]),
+                    structs: { ...vertexReflection.structs, ...fragmentReflection.structs },
+                };
+                return { descriptor, info: bindings };
+            }, [vertexShader, fragmentShader]);
+            return { pipeline, bindings: info };
+        } catch (err) {
+            this.reportError(`Failed to create pipeline ${pipelineKey}:`, err);
+            return null;
+        }
+    }
+
+    /**
+     * 获取回退管线（"error pink"），只使用 group 0，没有材质绑定
+     */
+    private getFallbackPipeline(target: RenderTargetState, layout: VertexLayout): BoundPipeline | null {
+        const fallback = this.fallbacks.getFallbackPipeline(target, layout);
+        if (!fallback) {
+            return null;
+        }
         return {
-            layout: 'auto',
-            vertex: {
-                module: vsModule!,
-                entryPoint: 'vs_main',
-                buffers: [{
-                    arrayStride: 7 * 4, // 3 floats (position) + 4 floats (color)
-                    attributes: [
-                        { shaderLocation: 0, offset: 0, format: 'float32x3' }, // position
-                        { shaderLocation: 1, offset: 12, format: 'float32x4' }, // color
-                    ]
-                }]
+            pipeline: fallback.pipeline,
+            bindings: {
+                bindGroupLayouts: fallback.bindGroupLayouts,
+                materialBindings: [],
+                structs: {},
             },
-            fragment: {
-                module: fsModule!,
-                entryPoint: 'fs_main',
-                targets: [{ format }]
-            },
-            primitive: {
-                topology: 'triangle-list',
-                cullMode: 'back',
-            },
-            depthStencil: undefined,
         };
     }
+
+    /**
+     * 输出错误（相同的错误只输出一次，避免每帧重复）
+     */
+    private reportError(context: string, err: unknown): void {
+        const message = err instanceof Error ? err.message : String(err);
+        if (!this._reportedErrors.has(message)) {
+            this._reportedErrors.add(message);
+            console.error(context, err);
+        }
+    }
+
+    /**
+     * 清理资源
+     */
+    dispose(): void {
+        // 注意：由于资源是共享的（uniform 环形缓冲区由 RenderSystem 持有），这里只清理 Renderer 自己创建的资源
+        this._reportedErrors.clear();
+    }
 }
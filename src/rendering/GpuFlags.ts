@@ -0,0 +1,14 @@
+/**
+ * 按名字读取 WebGPU 标志位（GPUShaderStage / GPUTextureUsage 等）
+ * - 这些常量是运行时全局对象（不支持 WebGPU 的环境中不存在），不能在模块加载时读取
+ * - create 在第一次查询时调用一次，之后使用缓存的映射表
+ */
+export function lazyFlags<K extends string, V>(create: () => Record<K, V>): (key: K) => V {
+    let flags: Record<K, V> | null = null;
+    return key => {
+        if (!flags) {
+            flags = create();
+        }
+        return flags[key];
+    };
+}
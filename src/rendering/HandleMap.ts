@@ -0,0 +1,65 @@
+import { Handle, describeHandle, isHandleAlive, StaleHandleError } from "@/assets/AssetHandle";
+
+interface Entry<V> {
+    generation: number;
+    value: V;
+}
+
+/**
+ * 以分代句柄为键的资源表（各 Manager 的 Handle → GPU 对象映射）
+ * - 按 id 存储并记录 generation，槽位被复用后旧句柄取不到新资源
+ * - 以过期句柄读取时告警并返回 undefined；以过期句柄注册时抛出 StaleHandleError
+ */
+export class HandleMap<H extends Handle, V> {
+    private entries = new Map<number, Entry<V>>();
+    // 已告警过的过期句柄（避免每帧重复输出）
+    private reported = new Set<string>();
+
+    set(handle: H, value: V): void {
+        if (!isHandleAlive(handle)) {
+            throw new StaleHandleError(handle);
+        }
+        this.entries.set(handle.id, { generation: handle.generation, value });
+    }
+
+    get(handle: H): V | undefined {
+        const entry = this.entries.get(handle.id);
+        if (entry && entry.generation === handle.generation && isHandleAlive(handle)) {
+            return entry.value;
+        }
+        if (!isHandleAlive(handle)) {
+            this.reportStale(handle);
+        }
+        return undefined;
+    }
+
+    has(handle: H): boolean {
+        const entry = this.entries.get(handle.id);
+        return entry !== undefined && entry.generation === handle.generation;
+    }
+
+    /**
+     * 移除句柄对应的资源
+     * @returns 被移除的资源（不存在或句柄已被复用时返回 undefined）
+     */
+    delete(handle: H): V | undefined {
+        const entry = this.entries.get(handle.id);
+        if (!entry || entry.generation !== handle.generation) {
+            return undefined;
+        }
+        this.entries.delete(handle.id);
+        return entry.value;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    private reportStale(handle: H): void {
+        const key = describeHandle(handle);
+        if (!this.reported.has(key)) {
+            this.reported.add(key);
+            console.warn(`Stale handle used after free: ${key}`);
+        }
+    }
+}
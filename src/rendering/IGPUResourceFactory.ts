@@ -0,0 +1,9 @@
+import { IShaderModuleFactory } from "./IShaderModuleFactory";
+import { ITextureFactory } from "./ITextureFactory";
+import { IMeshFactory } from "./IMeshFactory";
+
+/**
+ * RenderSystem 向 Asset 侧暴露的全部 GPU 资源工厂
+ * - Asset 侧只通过 Handle 注册 / 销毁，不接触 GPU 类型
+ */
+export interface IGPUResourceFactory extends IShaderModuleFactory, ITextureFactory, IMeshFactory { }
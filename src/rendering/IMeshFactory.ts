@@ -0,0 +1,11 @@
+import { MeshHandle } from "../assets/AssetHandle";
+import { MeshData } from "../assets/asset_types/MeshAsset";
+
+export interface IMeshFactory {
+    createMesh(
+        handle: MeshHandle,
+        data: MeshData
+    ): void;
+
+    destroyMesh(handle: MeshHandle): void;
+}
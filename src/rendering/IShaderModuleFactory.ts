@@ -1,8 +1,15 @@
 import { ShaderHandle } from "../assets/AssetHandle";
+import { ShaderSourceMap } from "../assets/shader/WgslPreprocessor";
 
 export interface IShaderModuleFactory {
+    /**
+     * @param sourceMap 预处理后的行 → 原始文件位置（用于报告编译错误）
+     */
     createShaderModule(
         handle: ShaderHandle,
-        code: string
+        code: string,
+        sourceMap?: ShaderSourceMap
     ): void;
+
+    destroyShaderModule(handle: ShaderHandle): void;
 }
\ No newline at end of file
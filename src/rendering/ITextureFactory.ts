@@ -0,0 +1,11 @@
+import { TextureHandle } from "../assets/AssetHandle";
+import { TextureData } from "../assets/asset_types/TextureAsset";
+
+export interface ITextureFactory {
+    createTexture(
+        handle: TextureHandle,
+        data: TextureData
+    ): void;
+
+    destroyTexture(handle: TextureHandle): void;
+}
@@ -0,0 +1,231 @@
+import { MaterialHandle, createMaterialHandle, freeHandle, isHandleAlive } from "@/assets/AssetHandle";
+import { TextureAsset } from "@/assets/asset_types/TextureAsset";
+import { ShaderDefines } from "@/assets/shader/WgslPreprocessor";
+import type { FallbackTextureKind } from "./FallbackManager";
+import { StructFields, StructLayout, StructValues } from "./StructLayout";
+
+/** 材质资源所在的 group（group 0 为每次绘制的 TransformUniforms） */
+export const MATERIAL_BIND_GROUP = 1;
+
+/** 材质参数块在着色器中的变量名（group 1 中的 uniform） */
+export const MATERIAL_PARAMETERS_BINDING = 'material';
+
+/**
+ * 混合模式
+ * - opaque：不混合
+ * - alpha：按 alpha 混合（非预乘）
+ * - premultiplied：颜色已预乘 alpha
+ * - additive：叠加
+ */
+export type BlendMode = 'opaque' | 'alpha' | 'premultiplied' | 'additive';
+
+/**
+ * 材质的渲染状态（与网格布局、渲染目标一起决定管线）
+ */
+export interface MaterialRenderState {
+    blendMode: BlendMode;
+    cullMode: GPUCullMode;
+    /** 关闭时深度比较总是通过 */
+    depthTest: boolean;
+    depthWrite: boolean;
+    topology: GPUPrimitiveTopology;
+}
+
+/** 默认：不透明、背面剔除、深度测试与写入、三角形列表 */
+export function createRenderState(overrides: Partial<MaterialRenderState> = {}): MaterialRenderState {
+    return {
+        blendMode: 'opaque',
+        cullMode: 'back',
+        depthTest: true,
+        depthWrite: true,
+        topology: 'triangle-list',
+        ...overrides,
+    };
+}
+
+/**
+ * 渲染状态在管线 key 中的部分
+ */
+export function getRenderStateKey(state: MaterialRenderState): string {
+    return `${state.blendMode}_${state.cullMode}_${state.depthTest ? 'dt' : 'nodt'}${state.depthWrite ? 'dw' : 'nodw'}_${state.topology}`;
+}
+
+// 颜色按 alpha 混合，alpha 通道统一按预乘方式累积覆盖率
+const BLEND_STATES: Record<BlendMode, GPUBlendState | undefined> = {
+    opaque: undefined,
+    alpha: {
+        color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha' },
+        alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha' },
+    },
+    premultiplied: {
+        color: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha' },
+        alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha' },
+    },
+    additive: {
+        color: { srcFactor: 'src-alpha', dstFactor: 'one' },
+        alpha: { srcFactor: 'one', dstFactor: 'one' },
+    },
+};
+
+/**
+ * 混合模式对应的 GPUBlendState（opaque 不混合）
+ */
+export function getBlendState(mode: BlendMode): GPUBlendState | undefined {
+    return BLEND_STATES[mode];
+}
+
+/**
+ * 材质使用的着色器（路径同 ShaderLibrary.request）
+ * - 变体宏与网格布局推导出的宏（HAS_VERTEX_COLOR / HAS_UV）合并后同时用于两个阶段
+ */
+export interface MaterialShader {
+    vertex: string;
+    fragment: string;
+    defines?: ShaderDefines;
+}
+
+/**
+ * 材质引用的纹理
+ * - 按着色器中纹理变量的名字绑定
+ */
+export interface MaterialTexture {
+    asset: TextureAsset | null;
+    /** 未指定贴图时使用的中性纹理 */
+    unset: FallbackTextureKind;
+}
+
+export interface MaterialOptions<F extends StructFields> {
+    name?: string;
+    shader: MaterialShader;
+    /** 参数块的布局（着色器中名为 material 的 uniform），没有参数时省略 */
+    parameters?: StructLayout<F> | null;
+    values?: StructValues<F>;
+    textures?: Record<string, TextureAsset | null>;
+    renderState?: Partial<MaterialRenderState>;
+}
+
+/**
+ * Material 描述一次绘制使用的着色器、参数、纹理与渲染状态
+ * - 参数块由 StructLayout 声明，CPU 侧的值直接按着色器布局存放
+ * - 每个实例有独立的 MaterialHandle，RenderSystem 侧据此缓存参数缓冲区与 BindGroup
+ * - 参数改变时 version 递增，参数缓冲区随之更新；纹理与渲染状态在绘制时读取
+ * - 不再使用时调用 dispose 释放 GPU 资源与句柄（clone 出的实例由创建者负责）
+ */
+export class Material<F extends StructFields = StructFields> {
+    readonly name: string;
+    readonly handle: MaterialHandle;
+    readonly shader: MaterialShader;
+    readonly parameters: StructLayout<F> | null;
+    renderState: MaterialRenderState;
+
+    private data: ArrayBuffer | null;
+    private textures = new Map<string, MaterialTexture>();
+    private _version = 0;
+    private disposeListeners = new Set<() => void>();
+
+    constructor(options: MaterialOptions<F>) {
+        this.name = options.name ?? '';
+        this.handle = createMaterialHandle(this.name);
+        this.shader = options.shader;
+        this.parameters = options.parameters ?? null;
+        this.renderState = createRenderState(options.renderState);
+        this.data = this.parameters?.create(options.values) ?? null;
+
+        for (const [name, asset] of Object.entries(options.textures ?? {})) {
+            this.textures.set(name, { asset, unset: 'white' });
+        }
+    }
+
+    /** 已调用过 dispose */
+    get disposed(): boolean {
+        return !isHandleAlive(this.handle);
+    }
+
+    /** 参数每次修改后递增 */
+    get version(): number {
+        return this._version;
+    }
+
+    /**
+     * 修改参数（未给出的字段保持不变）
+     */
+    setParameters(values: StructValues<F>): void {
+        if (!this.parameters || !this.data) {
+            throw new Error(`Material ${this.name} has no parameter block`);
+        }
+        this.parameters.write(this.data, values);
+        this._version++;
+    }
+
+    /**
+     * 按参数块布局排列的数据（没有参数块时为 null）
+     */
+    getParameterData(): ArrayBuffer | null {
+        return this.data;
+    }
+
+    /**
+     * 设置纹理
+     * @param name 着色器中纹理变量的名字
+     * @param unset asset 为 null 时使用的中性纹理
+     */
+    setTexture(name: string, asset: TextureAsset | null, unset: FallbackTextureKind = 'white'): void {
+        this.textures.set(name, { asset, unset });
+    }
+
+    getTexture(name: string): MaterialTexture | undefined {
+        return this.textures.get(name);
+    }
+
+    /** 引用的所有纹理（去重） */
+    getTextureAssets(): TextureAsset[] {
+        const assets = [...this.textures.values()].map(texture => texture.asset);
+        return [...new Set(assets.filter((asset): asset is TextureAsset => asset !== null))];
+    }
+
+    /**
+     * 订阅释放（持有材质 GPU 资源的一方据此销毁资源）
+     * @returns 取消订阅的函数
+     */
+    onDispose(listener: () => void): () => void {
+        this.disposeListeners.add(listener);
+        return () => {
+            this.disposeListeners.delete(listener);
+        };
+    }
+
+    /**
+     * 释放材质：通知 onDispose 的订阅者销毁 GPU 资源，然后释放句柄
+     * - 之后绘制时按未指定材质处理；重复调用无效
+     */
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        for (const listener of [...this.disposeListeners]) {
+            listener();
+        }
+        this.disposeListeners.clear();
+        freeHandle(this.handle);
+    }
+
+    /**
+     * 创建材质实例：共享着色器与参数布局，复制参数、纹理与渲染状态
+     * - 实例有独立的 Handle（独立的参数缓冲区与 BindGroup），修改互不影响
+     */
+    clone(name = this.name): Material<F> {
+        const material = new Material<F>({
+            name,
+            shader: this.shader,
+            parameters: this.parameters,
+            renderState: this.renderState,
+        });
+        if (this.data && material.data) {
+            new Uint8Array(material.data).set(new Uint8Array(this.data));
+        }
+        for (const [key, texture] of this.textures) {
+            material.textures.set(key, { ...texture });
+        }
+        return material;
+    }
+}
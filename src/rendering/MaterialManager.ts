@@ -0,0 +1,201 @@
+import { MaterialHandle, describeHandle } from "@/assets/AssetHandle";
+import { HandleMap } from "./HandleMap";
+import { FallbackManager } from "./FallbackManager";
+import { TextureManager } from "./TextureManager";
+import { MATERIAL_PARAMETERS_BINDING, Material } from "./Material";
+import { ShaderBinding, ShaderStruct } from "./WgslReflection";
+
+interface MaterialBindGroup {
+    bindGroup: GPUBindGroup;
+    // 实际绑定的纹理（材质换贴图、纹理就绪或重新上传后需要重建）
+    textures: GPUTexture[];
+}
+
+interface MaterialResources {
+    parameterBuffer: GPUBuffer | null;
+    // 已上传到 parameterBuffer 的材质版本
+    uploadedVersion: number;
+    bindGroups: Map<GPUBindGroupLayout, MaterialBindGroup>;
+    // 取消对 Material.onDispose 的订阅
+    unsubscribe: () => void;
+}
+
+/**
+ * 着色器的材质 group 不能由材质提供
+ * - problems 为逐条说明
+ */
+export class MaterialBindingError extends Error {
+    readonly material: string;
+    readonly problems: readonly string[];
+
+    constructor(material: string, problems: readonly string[]) {
+        super(`Material ${material} cannot be bound:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = 'MaterialBindingError';
+        this.material = material;
+        this.problems = problems;
+    }
+}
+
+/**
+ * 检查着色器的材质 group 能否由材质提供
+ * - uniform 只支持名为 material 的参数块（布局需与材质的 StructLayout 一致）
+ * - 纹理按变量名取自材质（未设置的使用白色纹理），采样器使用共享的线性采样器
+ * @returns 不支持之处（为空时可以绑定）
+ */
+export function findMaterialBindingProblems(
+    material: Material,
+    bindings: readonly ShaderBinding[],
+    structs: Record<string, ShaderStruct>
+): string[] {
+    const problems: string[] = [];
+    for (const binding of bindings) {
+        switch (binding.kind) {
+            case 'uniform':
+                if (binding.name !== MATERIAL_PARAMETERS_BINDING) {
+                    problems.push(`uniform '${binding.name}' is not supported, use '${MATERIAL_PARAMETERS_BINDING}'`);
+                } else if (!material.parameters) {
+                    problems.push(`no parameter block is set for '${binding.name}'`);
+                } else {
+                    problems.push(...material.parameters.findMismatches(structs[binding.type])
+                        .map(problem => `${material.parameters!.name}: ${problem}`));
+                }
+                break;
+            case 'texture':
+                if (binding.viewDimension !== '2d' || binding.multisampled || binding.sampleType !== 'float') {
+                    problems.push(`texture '${binding.name}' must be texture_2d<f32>`);
+                }
+                break;
+            case 'sampler':
+                break;
+            default:
+                problems.push(`${binding.kind} binding '${binding.name}' is not supported in materials`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * MaterialManager 持有材质实例的 GPU 资源
+ * - 每个 MaterialHandle 一个参数缓冲区，版本变化时重新上传
+ * - BindGroup 按材质实例与 BindGroupLayout 缓存，绑定的纹理变化（换贴图 / 纹理就绪）后重建
+ * - 纹理未就绪时使用 FallbackManager 的回退纹理
+ * - Material.dispose 时随之销毁
+ */
+export class MaterialManager {
+    private materials = new HandleMap<MaterialHandle, MaterialResources>();
+    private sampler: GPUSampler | null = null;
+
+    constructor(
+        private device: GPUDevice,
+        private textures: TextureManager,
+        private fallbacks: FallbackManager,
+    ) { }
+
+    /**
+     * 获取材质在指定布局下的 BindGroup
+     * @param bindings 布局对应的着色器绑定（材质 group 中的资源）
+     * @param structs 着色器中的结构体（校验参数块布局）
+     * @throws MaterialBindingError 着色器的绑定不能由材质提供时
+     */
+    getBindGroup(
+        material: Material,
+        layout: GPUBindGroupLayout,
+        bindings: readonly ShaderBinding[],
+        structs: Record<string, ShaderStruct>
+    ): GPUBindGroup {
+        const resources = this.getResources(material);
+        this.uploadParameters(material, resources);
+
+        const textures = bindings
+            .filter(binding => binding.kind === 'texture')
+            .map(binding => this.resolveTexture(material, binding.name));
+        const cached = resources.bindGroups.get(layout);
+        if (cached && cached.textures.every((texture, i) => texture === textures[i])) {
+            return cached.bindGroup;
+        }
+
+        const problems = findMaterialBindingProblems(material, bindings, structs);
+        if (problems.length > 0) {
+            throw new MaterialBindingError(describeHandle(material.handle), problems);
+        }
+
+        let textureIndex = 0;
+        const entries: GPUBindGroupEntry[] = bindings.map(binding => {
+            switch (binding.kind) {
+                case 'uniform':
+                    return { binding: binding.binding, resource: { buffer: resources.parameterBuffer! } };
+                case 'texture':
+                    return { binding: binding.binding, resource: textures[textureIndex++].createView() };
+                default:
+                    return { binding: binding.binding, resource: this.getSampler() };
+            }
+        });
+
+        const bindGroup = this.device.createBindGroup({
+            label: `Material ${describeHandle(material.handle)}`,
+            layout,
+            entries,
+        });
+        resources.bindGroups.set(layout, { bindGroup, textures });
+        return bindGroup;
+    }
+
+    /**
+     * 释放材质实例的 GPU 资源（由 Material.dispose 触发）
+     */
+    destroy(handle: MaterialHandle): void {
+        const resources = this.materials.delete(handle);
+        if (resources) {
+            resources.unsubscribe();
+            resources.parameterBuffer?.destroy();
+        }
+    }
+
+    private getResources(material: Material): MaterialResources {
+        const handle = material.handle;
+        let resources = this.materials.get(handle);
+        if (!resources) {
+            const data = material.getParameterData();
+            resources = {
+                parameterBuffer: data ? this.device.createBuffer({
+                    label: `Material ${describeHandle(material.handle)} parameters`,
+                    size: data.byteLength,
+                    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+                }) : null,
+                uploadedVersion: -1,
+                bindGroups: new Map(),
+                unsubscribe: material.onDispose(() => this.destroy(handle)),
+            };
+            this.materials.set(handle, resources);
+        }
+        return resources;
+    }
+
+    private uploadParameters(material: Material, resources: MaterialResources): void {
+        const data = material.getParameterData();
+        if (resources.uploadedVersion !== material.version && data && resources.parameterBuffer) {
+            this.device.queue.writeBuffer(resources.parameterBuffer, 0, data);
+        }
+        resources.uploadedVersion = material.version;
+    }
+
+    private resolveTexture(material: Material, name: string): GPUTexture {
+        const texture = material.getTexture(name);
+        const handle = this.fallbacks.resolveTexture(texture?.asset ?? null, texture?.unset ?? 'white');
+        return this.textures.get(handle)!;
+    }
+
+    private getSampler(): GPUSampler {
+        if (!this.sampler) {
+            this.sampler = this.device.createSampler({
+                label: 'Material sampler',
+                addressModeU: 'repeat',
+                addressModeV: 'repeat',
+                magFilter: 'linear',
+                minFilter: 'linear',
+                mipmapFilter: 'linear',
+            });
+        }
+        return this.sampler;
+    }
+}
@@ -0,0 +1,44 @@
+import { MeshHandle, describeHandle } from "@/assets/AssetHandle";
+import { MeshData } from "@/assets/asset_types/MeshAsset";
+import { BufferManager } from "@/core/BufferManager";
+import { Mesh } from "@/core/types/Mesh";
+import { HandleMap } from "./HandleMap";
+
+/**
+ * MeshManager 持有所有由 MeshHandle 注册的 GPU Mesh
+ * - 通过 BufferManager 上传顶点 / 索引数据
+ * - Handle 与 Mesh 一一对应，重复创建会替换旧缓冲区
+ */
+export class MeshManager {
+    private meshes = new HandleMap<MeshHandle, Mesh>();
+
+    constructor(private bufferManager: BufferManager) { }
+
+    createMesh(handle: MeshHandle, data: MeshData): void {
+        const label = describeHandle(handle);
+        const mesh: Mesh = {
+            vertexBuffer: this.bufferManager.createVertexBuffer(data.vertices, `${label} vertices`),
+            layout: data.layout,
+            indexBuffer: this.bufferManager.createIndexBuffer(data.indices, `${label} indices`),
+            indexFormat: data.indices instanceof Uint32Array ? 'uint32' : 'uint16',
+            indexCount: data.indices.length,
+            vertexCount: data.vertexCount,
+            subMeshes: data.subMeshes.map(({ firstIndex, indexCount }) => ({ firstIndex, indexCount })),
+        };
+
+        this.destroy(handle);
+        this.meshes.set(handle, mesh);
+    }
+
+    get(handle: MeshHandle): Mesh | undefined {
+        return this.meshes.get(handle);
+    }
+
+    destroy(handle: MeshHandle): void {
+        const mesh = this.meshes.delete(handle);
+        if (mesh) {
+            mesh.vertexBuffer.destroy();
+            mesh.indexBuffer?.destroy();
+        }
+    }
+}
@@ -0,0 +1,349 @@
+import {
+    IRenderPass,
+    RenderGraphBuffer,
+    RenderGraphResource,
+    RenderGraphResources,
+    RenderGraphTexture,
+    RenderGraphTextureDesc,
+    RenderPassBuilder,
+    TextureAccess,
+} from "../core/types/IRenderPass";
+import { lazyFlags } from "./GpuFlags";
+import { PooledTexture, TransientTextureDesc, TransientTexturePool } from "./TransientTexturePool";
+
+const getAccessUsage = lazyFlags((): Record<TextureAccess, GPUTextureUsageFlags> => ({
+    sampled: GPUTextureUsage.TEXTURE_BINDING,
+    attachment: GPUTextureUsage.RENDER_ATTACHMENT,
+    storage: GPUTextureUsage.STORAGE_BINDING,
+    copy: GPUTextureUsage.COPY_SRC | GPUTextureUsage.COPY_DST,
+}));
+
+interface ResourceEntry {
+    handle: RenderGraphResource;
+    /** 导入的资源在图外部可见：写入它的 Pass 不会被剔除 */
+    imported: boolean;
+    /** 已产生的最新版本 */
+    version: number;
+    // 导入的资源
+    texture?: GPUTexture;
+    view?: GPUTextureView;
+    buffer?: GPUBuffer;
+    // 瞬态纹理
+    desc?: RenderGraphTextureDesc;
+    usage: GPUTextureUsageFlags;
+    pooled?: PooledTexture;
+}
+
+interface PassEntry {
+    pass: IRenderPass;
+    index: number;
+    reads: RenderGraphResource[];
+    writes: RenderGraphResource[];
+    sideEffect: boolean;
+}
+
+/**
+ * 编译结果：执行顺序与被剔除的 Pass
+ */
+export interface RenderGraphPlan {
+    passes: readonly IRenderPass[];
+    culled: readonly IRenderPass[];
+}
+
+/**
+ * 渲染图循环依赖或资源使用不合法
+ */
+export class RenderGraphError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RenderGraphError';
+    }
+}
+
+function resourceKey(resource: RenderGraphResource): string {
+    return `${resource.id}@${resource.version}`;
+}
+
+/**
+ * RenderGraph 按 Pass 声明的读写关系组织一帧的渲染
+ * - 资源每次写入产生新版本：读 → 该版本的写入者（数据依赖），写 → 上一版本的写入者与读取者（顺序依赖）
+ * - 从写入导入资源 / 有副作用的 Pass 反向追溯，未被用到的 Pass 被剔除
+ * - 拓扑排序，无依赖关系的 Pass 保持添加顺序
+ * - 瞬态纹理按执行顺序中的生命周期分配，生命周期不重叠的纹理共享同一个 GPUTexture
+ *
+ * 每帧由 RenderSystem reset，各 Renderer 向其中添加 Pass，最后 execute 录制到同一个 CommandEncoder
+ */
+export class RenderGraph {
+    private pool: TransientTexturePool;
+    private resources: ResourceEntry[] = [];
+    private passes: PassEntry[] = [];
+
+    constructor(device: GPUDevice) {
+        this.pool = new TransientTexturePool(device);
+    }
+
+    /**
+     * 开始新的一帧：清空 Pass 与资源（瞬态纹理池保留）
+     */
+    reset(): void {
+        this.resources = [];
+        this.passes = [];
+    }
+
+    /**
+     * 导入外部纹理（如 Canvas 当前纹理、深度附件）
+     * @param texture 未提供时 getTexture 不可用，只能取视图
+     */
+    importTexture(name: string, view: GPUTextureView, texture?: GPUTexture): RenderGraphTexture {
+        const handle: RenderGraphTexture = { kind: 'texture', id: this.resources.length, version: 0, name };
+        this.resources.push({ handle, imported: true, version: 0, texture, view, usage: 0 });
+        return handle;
+    }
+
+    importBuffer(name: string, buffer: GPUBuffer): RenderGraphBuffer {
+        const handle: RenderGraphBuffer = { kind: 'buffer', id: this.resources.length, version: 0, name };
+        this.resources.push({ handle, imported: true, version: 0, buffer, usage: 0 });
+        return handle;
+    }
+
+    /**
+     * 声明瞬态纹理（尚无内容，需先由某个 Pass 写入）
+     */
+    createTexture(name: string, desc: RenderGraphTextureDesc): RenderGraphTexture {
+        const handle: RenderGraphTexture = { kind: 'texture', id: this.resources.length, version: 0, name };
+        this.resources.push({ handle, imported: false, version: 0, desc, usage: desc.usage ?? 0 });
+        return handle;
+    }
+
+    /**
+     * 添加 Pass（立即调用其 setup 收集读写声明）
+     */
+    addPass(pass: IRenderPass): void {
+        const entry: PassEntry = { pass, index: this.passes.length, reads: [], writes: [], sideEffect: false };
+        const builder: RenderPassBuilder = {
+            createTexture: (name, desc, access = 'attachment') => builder.write(this.createTexture(name, desc), access),
+            read: (resource, access = 'sampled') => {
+                this.addUsage(resource, access);
+                entry.reads.push(resource);
+                return resource;
+            },
+            write: (resource, access = 'attachment') => {
+                const target = this.getEntry(resource);
+                if (resource.version !== target.version) {
+                    throw new RenderGraphError(
+                        `Pass '${pass.name}' writes an outdated version of '${resource.name}' ` +
+                        `(v${resource.version}, latest v${target.version}); use the handle returned by the previous write`
+                    );
+                }
+                this.addUsage(resource, access);
+                target.version++;
+                const written = { ...resource, version: target.version };
+                entry.writes.push(written);
+                return written;
+            },
+            sideEffect: () => {
+                entry.sideEffect = true;
+            },
+        };
+        pass.setup(builder);
+        this.passes.push(entry);
+    }
+
+    /**
+     * 计算执行顺序并剔除无用的 Pass
+     * @throws RenderGraphError 读取未写入的瞬态纹理或存在循环依赖时
+     */
+    compile(): RenderGraphPlan {
+        const producers = new Map<string, PassEntry>();
+        const readers = new Map<string, PassEntry[]>();
+        for (const entry of this.passes) {
+            for (const resource of entry.writes) {
+                producers.set(resourceKey(resource), entry);
+            }
+            for (const resource of entry.reads) {
+                const key = resourceKey(resource);
+                readers.set(key, [...(readers.get(key) ?? []), entry]);
+            }
+        }
+
+        // 数据依赖（决定是否被剔除）与顺序依赖
+        const dataDeps = new Map<PassEntry, Set<PassEntry>>();
+        const orderDeps = new Map<PassEntry, Set<PassEntry>>();
+        for (const entry of this.passes) {
+            const data = new Set<PassEntry>();
+            const order = new Set<PassEntry>();
+            for (const resource of entry.reads) {
+                const producer = producers.get(resourceKey(resource));
+                if (producer) {
+                    data.add(producer);
+                } else if (!this.getEntry(resource).imported) {
+                    throw new RenderGraphError(`Pass '${entry.pass.name}' reads '${resource.name}' before anything writes it`);
+                }
+            }
+            for (const resource of entry.writes) {
+                const previous = { ...resource, version: resource.version - 1 };
+                const producer = producers.get(resourceKey(previous));
+                if (producer) {
+                    data.add(producer);
+                }
+                for (const reader of readers.get(resourceKey(previous)) ?? []) {
+                    order.add(reader);
+                }
+            }
+            data.delete(entry);
+            order.delete(entry);
+            dataDeps.set(entry, data);
+            orderDeps.set(entry, order);
+        }
+
+        // 从外部可见的输出反向追溯
+        const needed = new Set<PassEntry>();
+        const visit = (entry: PassEntry): void => {
+            if (needed.has(entry)) {
+                return;
+            }
+            needed.add(entry);
+            dataDeps.get(entry)!.forEach(visit);
+        };
+        for (const entry of this.passes) {
+            if (entry.sideEffect || entry.writes.some(resource => this.getEntry(resource).imported)) {
+                visit(entry);
+            }
+        }
+
+        // 拓扑排序（Kahn），同层按添加顺序
+        const pending = new Map<PassEntry, number>();
+        const dependents = new Map<PassEntry, PassEntry[]>();
+        for (const entry of needed) {
+            const deps = [...dataDeps.get(entry)!, ...orderDeps.get(entry)!].filter(dep => needed.has(dep));
+            const unique = new Set(deps);
+            pending.set(entry, unique.size);
+            for (const dep of unique) {
+                dependents.set(dep, [...(dependents.get(dep) ?? []), entry]);
+            }
+        }
+        const ready = [...needed].filter(entry => pending.get(entry) === 0);
+        const ordered: PassEntry[] = [];
+        while (ready.length > 0) {
+            ready.sort((a, b) => a.index - b.index);
+            const entry = ready.shift()!;
+            ordered.push(entry);
+            for (const dependent of dependents.get(entry) ?? []) {
+                const count = pending.get(dependent)! - 1;
+                pending.set(dependent, count);
+                if (count === 0) {
+                    ready.push(dependent);
+                }
+            }
+        }
+        if (ordered.length !== needed.size) {
+            const cycle = [...needed].filter(entry => !ordered.includes(entry)).map(entry => entry.pass.name);
+            throw new RenderGraphError(`Render graph has a dependency cycle between passes: ${cycle.join(', ')}`);
+        }
+
+        return {
+            passes: ordered.map(entry => entry.pass),
+            culled: this.passes.filter(entry => !needed.has(entry)).map(entry => entry.pass),
+        };
+    }
+
+    /**
+     * 按编译顺序执行所有 Pass，瞬态纹理在首次使用前分配、最后一次使用后归还
+     */
+    execute(encoder: GPUCommandEncoder): RenderGraphPlan {
+        const plan = this.compile();
+        const entries = plan.passes.map(pass => this.passes.find(entry => entry.pass === pass)!);
+
+        // 瞬态纹理的生命周期（执行顺序中的首次 / 末次使用）
+        const first = new Map<ResourceEntry, number>();
+        const last = new Map<ResourceEntry, number>();
+        entries.forEach((entry, i) => {
+            for (const resource of [...entry.reads, ...entry.writes]) {
+                const target = this.getEntry(resource);
+                if (!target.imported) {
+                    if (!first.has(target)) {
+                        first.set(target, i);
+                    }
+                    last.set(target, i);
+                }
+            }
+        });
+
+        const resources: RenderGraphResources = {
+            getTexture: resource => {
+                const target = this.getEntry(resource);
+                const texture = target.texture ?? target.pooled?.texture;
+                if (!texture) {
+                    throw new RenderGraphError(`Texture '${resource.name}' is not available as a GPUTexture`);
+                }
+                return texture;
+            },
+            getTextureView: resource => {
+                const target = this.getEntry(resource);
+                const view = target.view ?? target.pooled?.view;
+                if (!view) {
+                    throw new RenderGraphError(`Texture '${resource.name}' is not allocated in this pass`);
+                }
+                return view;
+            },
+            getBuffer: resource => {
+                const buffer = this.getEntry(resource).buffer;
+                if (!buffer) {
+                    throw new RenderGraphError(`Buffer '${resource.name}' is not available`);
+                }
+                return buffer;
+            },
+        };
+
+        try {
+            entries.forEach((entry, i) => {
+                for (const [target, index] of first) {
+                    if (index === i) {
+                        target.pooled = this.pool.acquire(this.getTransientDesc(target), target.handle.name);
+                    }
+                }
+
+                entry.pass.execute(encoder, resources);
+
+                for (const [target, index] of last) {
+                    if (index === i) {
+                        this.pool.release(target.pooled!);
+                    }
+                }
+            });
+        } finally {
+            this.pool.endFrame();
+        }
+        return plan;
+    }
+
+    destroy(): void {
+        this.reset();
+        this.pool.destroy();
+    }
+
+    private getEntry(resource: RenderGraphResource): ResourceEntry {
+        const entry = this.resources[resource.id];
+        if (!entry || entry.handle.kind !== resource.kind) {
+            throw new RenderGraphError(`Unknown render graph resource '${resource.name}' (from a previous frame?)`);
+        }
+        return entry;
+    }
+
+    private addUsage(resource: RenderGraphResource, access: TextureAccess): void {
+        if (resource.kind === 'texture') {
+            this.getEntry(resource).usage |= getAccessUsage(access);
+        }
+    }
+
+    private getTransientDesc(entry: ResourceEntry): TransientTextureDesc {
+        const desc = entry.desc!;
+        return {
+            format: desc.format,
+            width: desc.width,
+            height: desc.height,
+            sampleCount: desc.sampleCount ?? 1,
+            usage: entry.usage,
+        };
+    }
+}
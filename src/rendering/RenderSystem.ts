@@ -4,12 +4,21 @@ import { CanvasManager } from "../core/CanvasManager";
 import { ForwardRenderer } from "./ForwardRenderer";
 import { ICamera } from "../core/types/ICamera";
 import { IRenderer } from "../core/types/IRenderer";
-import { RenderContext } from "../core/types/RenderContext";
-import { ResourceManager } from "../core/ResourceManager";
-import { IShaderModuleFactory } from "@/rendering/IShaderModuleFactory";
-import { ShaderModuleManager } from "./ShaderModuleManager";
-import { ShaderHandle } from "@/assets/AssetHandle";
+import { DepthStencilTarget, RenderContext } from "../core/types/RenderContext";
+import { DEFAULT_DEPTH_FORMAT } from "../core/DepthBuffer";
+import { RenderTargetAttachments } from "../core/RenderTargetAttachments";
+import { ShaderLibrary } from "./ShaderLibrary";
+import { MeshHandle, ShaderHandle, TextureHandle } from "@/assets/AssetHandle";
 import { FallbackManager } from "./FallbackManager";
+import { UniformRingBuffer } from "./UniformRingBuffer";
+import { RenderGraph } from "./RenderGraph";
+import { MaterialManager } from "./MaterialManager";
+import { TextureManager } from "./TextureManager";
+import { TextureData } from "@/assets/asset_types/TextureAsset";
+import { IGPUResourceFactory } from "./IGPUResourceFactory";
+import { MeshManager } from "./MeshManager";
+import { MeshData } from "@/assets/asset_types/MeshAsset";
+import { ShaderSourceMap } from "@/assets/shader/WgslPreprocessor";
 
 /**
  * RenderSystem 封装所有 GPU 相关的操作
@@ -17,7 +26,7 @@ import { FallbackManager } from "./FallbackManager";
  * - 管理共享的资源管理器（所有 Renderer 共享）
  * - 支持注册多个 Renderer（都共享同一个 Device 和资源管理器）
  */
-export class RenderSystem implements IShaderModuleFactory {
+export class RenderSystem implements IGPUResourceFactory {
     /** RenderSystem 是 Device 的唯一拥有者，各个 IRenderer 实例只共享*/
     private readonly device: GPUDevice;
     private readonly adapter: GPUAdapter;
@@ -26,12 +35,21 @@ export class RenderSystem implements IShaderModuleFactory {
     public readonly bufferManager: BufferManager;
     public readonly pipelineManager: PipelineManager;
     public readonly canvasManager: CanvasManager;
-    public readonly resourceManager: ResourceManager;
-    public readonly shaderModules: ShaderModuleManager;
+    public readonly shaders: ShaderLibrary;
+    public readonly textures: TextureManager;
+    public readonly meshes: MeshManager;
     public readonly fallbackManager: FallbackManager;
+    /** 材质实例的参数缓冲区与 BindGroup */
+    public readonly materials: MaterialManager;
+    /** 每帧的 uniform 分配（所有 Renderer 共享，帧末统一上传） */
+    public readonly uniformRing: UniformRingBuffer;
+    /** 每帧重建的渲染图（瞬态纹理池跨帧保留） */
+    public readonly renderGraph: RenderGraph;
 
     // Renderer 集合（可以注册多个，都共享上面的资源）
     private renderers: IRenderer[] = [];
+    // 离屏渲染目标的深度 / MSAA 附件（Canvas 的由 CanvasContext 持有）
+    private targetAttachments = new WeakMap<GPUTexture, RenderTargetAttachments>();
 
     constructor(adapter: GPUAdapter, device: GPUDevice) {
         this.adapter = adapter;
@@ -41,9 +59,16 @@ export class RenderSystem implements IShaderModuleFactory {
         this.bufferManager = new BufferManager(device);
         this.pipelineManager = new PipelineManager(device);
         this.canvasManager = new CanvasManager(device);
-        this.resourceManager = new ResourceManager(device);
-        this.shaderModules = new ShaderModuleManager(this.device);
-        this.fallbackManager = new FallbackManager(this.device, this.shaderModules);
+        this.shaders = new ShaderLibrary(this.device);
+        this.textures = new TextureManager(this.device);
+        this.meshes = new MeshManager(this.bufferManager);
+        this.uniformRing = new UniformRingBuffer(this.device);
+        this.renderGraph = new RenderGraph(this.device);
+        this.fallbackManager = new FallbackManager(this.device, this.pipelineManager, this.textures, this.meshes);
+        this.materials = new MaterialManager(this.device, this.textures, this.fallbackManager);
+
+        // 着色器热重载：模块替换后重建相关管线
+        this.shaders.onModuleChanged(handle => this.pipelineManager.invalidateShader(handle));
     }
 
     public initialize(): void {
@@ -73,7 +98,11 @@ export class RenderSystem implements IShaderModuleFactory {
             this.bufferManager,  // 共享的资源管理器
             this.pipelineManager,
             this.canvasManager,
-            this.resourceManager,
+            this.shaders,
+            this.meshes,
+            this.fallbackManager,
+            this.uniformRing,
+            this.materials,
         );
         this.registerRenderer(renderer);
         return renderer;
@@ -83,10 +112,13 @@ export class RenderSystem implements IShaderModuleFactory {
      * 渲染一帧
      * 按照 IRenderer 接口的方式，为每个相机创建 RenderContext 并调用相应的 Renderer
      * 每个 Camera 都有其绑定的 Renderer（一一对应关系）
+     * Renderer 向本帧的渲染图添加 Pass，所有相机的 Pass 构建完成后统一编译并执行
      */
     renderFrame(cameras: ICamera[]): void {
         // 开始帧（使用共享的 Device）
         const commandEncoder = this.device.createCommandEncoder();
+        this.uniformRing.beginFrame();
+        this.renderGraph.reset();
 
         // 遍历每个相机
         for (const camera of cameras) {
@@ -96,11 +128,14 @@ export class RenderSystem implements IShaderModuleFactory {
                 continue; // 如果无法创建上下文，跳过这个相机
             }
 
-            // 使用 Camera 绑定的 Renderer 进行渲染（一一对应关系）
-            camera.renderer.render(commandEncoder, context);
+            // 使用 Camera 绑定的 Renderer 构建渲染图（一一对应关系）
+            camera.renderer.buildGraph(this.renderGraph, context);
         }
 
-        // 提交命令
+        this.renderGraph.execute(commandEncoder);
+
+        // 本帧所有绘制的 uniform 一次上传，再提交命令
+        this.uniformRing.upload();
         this.device.queue.submit([commandEncoder.finish()]);
     }
 
@@ -110,10 +145,13 @@ export class RenderSystem implements IShaderModuleFactory {
     private createRenderContext(camera: ICamera): RenderContext | null {
         const target = camera.target;
 
-        let textureView: GPUTextureView;
+        let targetView: GPUTextureView;
         let width: number;
         let height: number;
         let format: GPUTextureFormat;
+        let sampleCount: number;
+        let multisampleView: GPUTextureView | null;
+        let depthStencil: DepthStencilTarget | null;
 
         if (target.type === 'canvas') {
             const canvasContext = this.canvasManager.getContext(target.canvasId);
@@ -122,28 +160,61 @@ export class RenderSystem implements IShaderModuleFactory {
                 return null;
             }
             const texture = canvasContext.getCurrentTexture();
-            textureView = texture.createView();
+            targetView = texture.createView();
             width = texture.width;
             height = texture.height;
-            format = navigator.gpu!.getPreferredCanvasFormat();
+            format = canvasContext.format;
+            sampleCount = camera.sampleCount ?? canvasContext.sampleCount;
+            multisampleView = canvasContext.getMultisampleView(sampleCount);
+            depthStencil = canvasContext.getDepthStencil(sampleCount);
         } else {
-            textureView = target.texture.createView();
+            targetView = target.texture.createView();
             width = target.width;
             height = target.height;
-            format = navigator.gpu!.getPreferredCanvasFormat();
+            format = target.texture.format;
+            sampleCount = camera.sampleCount ?? target.sampleCount ?? 1;
+            const attachments = this.getTargetAttachments(target.texture, target.depthFormat);
+            attachments.resize(width, height);
+            multisampleView = attachments.getMultisampleView(sampleCount);
+            depthStencil = attachments.getDepthStencil(sampleCount);
         }
 
         return {
             camera,
             scene: camera.scene,
             device: this.device,
-            textureView,
+            // MSAA 时渲染到多重采样纹理，再 resolve 到渲染目标
+            textureView: multisampleView ?? targetView,
+            resolveTarget: multisampleView ? targetView : null,
             width,
             height,
             format,
+            depthStencil,
+            sampleCount,
         };
     }
 
+    /**
+     * 离屏渲染目标的附件（按纹理缓存，深度格式变化时重新创建）
+     */
+    private getTargetAttachments(
+        texture: GPUTexture,
+        depthFormat: GPUTextureFormat | null = DEFAULT_DEPTH_FORMAT
+    ): RenderTargetAttachments {
+        let attachments = this.targetAttachments.get(texture);
+        if (!attachments || attachments.depthFormat !== depthFormat) {
+            attachments?.destroy();
+            attachments = new RenderTargetAttachments(
+                this.device,
+                texture.format,
+                depthFormat,
+                texture.label || 'Render target'
+            );
+            this.targetAttachments.set(texture, attachments);
+        }
+        return attachments;
+    }
+
     /**
      * 获取 Device（仅在必要时使用，通常上层不应直接访问）
      * 建议通过 RenderSystem 的公共接口来操作
@@ -153,8 +224,28 @@ export class RenderSystem implements IShaderModuleFactory {
     }
 
     //#region Interface Implementations
-    createShaderModule(handle: ShaderHandle, code: string): void {
-        this.shaderModules.createShaderModule(handle, code);
+    createShaderModule(handle: ShaderHandle, code: string, sourceMap?: ShaderSourceMap): void {
+        this.shaders.createShaderModule(handle, code, sourceMap);
+    }
+
+    destroyShaderModule(handle: ShaderHandle): void {
+        this.shaders.destroy(handle);
+    }
+
+    createTexture(handle: TextureHandle, data: TextureData): void {
+        this.textures.createTexture(handle, data);
+    }
+
+    destroyTexture(handle: TextureHandle): void {
+        this.textures.destroy(handle);
+    }
+
+    createMesh(handle: MeshHandle, data: MeshData): void {
+        this.meshes.createMesh(handle, data);
+    }
+
+    destroyMesh(handle: MeshHandle): void {
+        this.meshes.destroy(handle);
     }
     //#endregion
 }
@@ -1,20 +1,52 @@
 import { Mesh } from "../core/types/Mesh"
+import { MeshHandle } from "../assets/AssetHandle"
+import { IAsset } from "../assets/asset_types/IAsset"
+import { MaterialAsset } from "../assets/asset_types/MaterialAsset"
+import { Material } from "./Material"
 import { mat4 } from "gl-matrix"
 
+/** Renderable 使用的材质：Material 或 MaterialAsset（未 Ready 时使用默认材质） */
+export type RenderableMaterial = Material | MaterialAsset | null
+
 /**
  * Renderable 表示场景中一个可渲染的对象
- * 包含 Mesh 和变换矩阵
+ * 包含 Mesh、材质和变换矩阵
+ * - mesh 可以是已创建的 GPU Mesh，也可以是 MeshHandle（渲染时由 Renderer 查找）
+ * - materials 按子网格下标对应，超出长度的子网格使用 materials[0]；为 null 时使用默认材质
  */
 export class Renderable {
-    mesh: Mesh
+    mesh: Mesh | MeshHandle
+    materials: RenderableMaterial[]
+    // 提供 mesh 的 Asset（可见时优先上传其 GPU 资源）
+    readonly asset: IAsset | null
     private _transform: mat4 = mat4.create()
+    // 外部给定的基础变换（如模型节点层级），位置 / 旋转 / 缩放叠加在其之上
+    private _baseTransform: mat4 | null = null
     private _position: [number, number, number] = [0, 0, 0]
     private _rotation: [number, number, number] = [0, 0, 0]
     private _scale: [number, number, number] = [1, 1, 1]
     private _transformDirty: boolean = true
 
-    constructor(mesh: Mesh) {
+    constructor(mesh: Mesh | MeshHandle, asset: IAsset | null = null, materials: RenderableMaterial[] = []) {
         this.mesh = mesh
+        this.asset = asset
+        this.materials = materials
+    }
+
+    /** 第一个材质（整个 Mesh 使用同一材质时） */
+    get material(): RenderableMaterial {
+        return this.materials[0] ?? null
+    }
+
+    set material(material: RenderableMaterial) {
+        this.materials = [material]
+    }
+
+    /**
+     * 子网格使用的材质
+     */
+    getMaterial(subMeshIndex: number): RenderableMaterial {
+        return subMeshIndex < this.materials.length ? this.materials[subMeshIndex] : this.material
     }
 
     setPosition(x: number, y: number, z: number) {
@@ -32,9 +64,17 @@ export class Renderable {
         this._transformDirty = true
     }
 
+    setBaseTransform(matrix: mat4 | null) {
+        this._baseTransform = matrix ? mat4.clone(matrix) : null
+        this._transformDirty = true
+    }
+
     getTransform(): mat4 {
         if (this._transformDirty) {
             mat4.identity(this._transform)
+            if (this._baseTransform) {
+                mat4.copy(this._transform, this._baseTransform)
+            }
             mat4.translate(this._transform, this._transform, this._position)
             mat4.rotateX(this._transform, this._transform, this._rotation[0])
             mat4.rotateY(this._transform, this._transform, this._rotation[1])
@@ -0,0 +1,80 @@
+import { ShaderHandle } from "@/assets/AssetHandle";
+import { ShaderPreprocessError } from "@/assets/AssetErrors";
+import { ShaderSourceMap, mapSourceLine } from "@/assets/shader/WgslPreprocessor";
+
+export type ShaderDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * 一条着色器诊断（编译器消息、预处理或反射错误）
+ * - file / line 已经过 #include 映射回原始文件；无法映射时 file 为模块名、line 为生成代码中的行
+ */
+export interface ShaderDiagnostic {
+    severity: ShaderDiagnosticSeverity;
+    message: string;
+    file: string;
+    /** 行号从 1 开始；0 表示没有位置信息 */
+    line: number;
+    column: number;
+    /** 生成代码（预处理后）中的行号 */
+    generatedLine: number;
+}
+
+/**
+ * 着色器模块的编译状态
+ * - compiling：等待 getCompilationInfo
+ * - ready：最近一次编译通过
+ * - failed：最近一次编译（或预处理 / 反射）失败
+ */
+export type ShaderCompileStatus = 'compiling' | 'ready' | 'failed';
+
+/**
+ * 一次编译结束时发出的事件
+ */
+export interface ShaderDiagnosticsEvent {
+    handle: ShaderHandle;
+    status: Exclude<ShaderCompileStatus, 'compiling'>;
+    diagnostics: readonly ShaderDiagnostic[];
+    /** 失败后仍有上一个可用的模块（热重载），否则需要回退着色器 */
+    usingPrevious: boolean;
+}
+
+export type ShaderDiagnosticsListener = (event: ShaderDiagnosticsEvent) => void;
+
+/**
+ * 编译器消息 → 诊断（经 sourceMap 映射位置）
+ * @param name 模块名（无法映射时作为文件名）
+ */
+export function fromCompilationMessage(
+    message: GPUCompilationMessage,
+    name: string,
+    sourceMap?: ShaderSourceMap
+): ShaderDiagnostic {
+    const location = sourceMap ? mapSourceLine(sourceMap, message.lineNum) : undefined;
+    return {
+        severity: message.type,
+        message: message.message,
+        file: location?.file ?? name,
+        line: location?.line ?? message.lineNum,
+        column: message.linePos,
+        generatedLine: message.lineNum,
+    };
+}
+
+/**
+ * 预处理 / 反射等异常 → 诊断
+ */
+export function fromError(error: unknown, name: string): ShaderDiagnostic {
+    if (error instanceof ShaderPreprocessError) {
+        return { severity: 'error', message: error.message, file: error.file, line: error.line, column: 0, generatedLine: 0 };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { severity: 'error', message, file: name, line: 0, column: 0, generatedLine: 0 };
+}
+
+/**
+ * 单行文本形式：file:line:column severity: message
+ */
+export function formatDiagnostic(diagnostic: ShaderDiagnostic): string {
+    const position = diagnostic.line > 0 ? `:${diagnostic.line}:${diagnostic.column}` : '';
+    return `${diagnostic.file}${position} ${diagnostic.severity}: ${diagnostic.message}`;
+}
@@ -0,0 +1,322 @@
+import { ShaderHandle, createShaderHandle, describeHandle, freeHandle } from "@/assets/AssetHandle";
+import { SHADER_ROOT } from "@/assets/AssetLoadContext";
+import { AssetManager } from "@/assets/AssetManager";
+import { ShaderAsset } from "@/assets/asset_types/ShaderAsset";
+import { AssetState } from "@/assets/AssetEnums";
+import { ShaderDefines, ShaderSourceMap, getVariantKey } from "@/assets/shader/WgslPreprocessor";
+import { HandleMap } from "./HandleMap";
+import { ShaderEntryPoints, ShaderReflection, ShaderStage, reflectWgsl } from "./WgslReflection";
+import {
+    ShaderCompileStatus,
+    ShaderDiagnostic,
+    ShaderDiagnosticsEvent,
+    ShaderDiagnosticsListener,
+    formatDiagnostic,
+    fromCompilationMessage,
+    fromError,
+} from "./ShaderDiagnostics";
+
+/**
+ * 着色器模块替换回调（热重载重新编译成功后触发）
+ */
+export type ShaderModuleChangedListener = (handle: ShaderHandle) => void;
+
+interface CompiledShader {
+    module: GPUShaderModule;
+    reflection: ShaderReflection;
+}
+
+/** 由宏定义预处理出的变体（独立的 Handle 与模块） */
+interface ShaderVariant {
+    handle: ShaderHandle;
+    asset: ShaderAsset;
+    defines: ShaderDefines;
+}
+
+/**
+ * ShaderLibrary 是唯一的着色器入口
+ * - WGSL 源码是 ShaderAsset，经 AssetManager 加载、上传（同一路径只有一个 Asset）
+ * - 每个 ShaderHandle 对应一个 GPUShaderModule，入口函数、资源绑定与顶点输入从源码反射
+ * - 变体（#define 组合）各有 Handle 与模块，随源码更新重新生成
+ * - 模块经 getCompilationInfo 确认没有错误后才可用（不会用它生成无效管线）
+ * - 同一 Handle 重新创建时（热重载），编译通过后才替换旧模块；失败时保留上一个可用的模块
+ * - 每次编译结束发出结构化诊断（位置经 #include 映射回原始文件）
+ */
+export class ShaderLibrary {
+    // 已通过编译检查、当前使用的模块
+    private compiled = new HandleMap<ShaderHandle, CompiledShader>();
+    // 每个 Handle 最近一次提交的编译序号，过期的编译结果被丢弃
+    private versions = new HandleMap<ShaderHandle, number>();
+    // 最近一次编译的状态与诊断
+    private statuses = new HandleMap<ShaderHandle, ShaderCompileStatus>();
+    private diagnostics = new HandleMap<ShaderHandle, readonly ShaderDiagnostic[]>();
+
+    private assetManager: AssetManager | null = null;
+    // 解析后的路径 → 已请求的 ShaderAsset
+    private requested = new Map<string, ShaderAsset>();
+    // 基础 Handle → 变体 key → 变体
+    private variants = new HandleMap<ShaderHandle, Map<string, ShaderVariant>>();
+
+    private changedListeners = new Set<ShaderModuleChangedListener>();
+    private diagnosticsListeners = new Set<ShaderDiagnosticsListener>();
+
+    constructor(private device: GPUDevice) { }
+
+    /**
+     * 绑定加载源码用的 AssetManager（由 Engine 在创建时调用）
+     */
+    bindAssetManager(assetManager: AssetManager): void {
+        this.assetManager = assetManager;
+
+        // 源码加载 / 预处理失败同样作为诊断报告
+        assetManager.onAssetStateChange((asset, state) => {
+            if (state === AssetState.Failed && asset instanceof ShaderAsset && this.requested.get(asset.id) === asset) {
+                this.fail(asset.handle, [fromError(asset.error, asset.id)]);
+            }
+        });
+    }
+
+    /**
+     * 按路径获取着色器 Asset，首次请求时开始加载
+     * - 持有其引用（不会被预算回收）；就绪后由 AssetManager.update 上传，此前 get 返回 undefined
+     * @param path 绝对路径，或相对内置着色器目录的路径（可省略 .wgsl）
+     */
+    request(path: string): ShaderAsset {
+        const assetManager = this.assetManager;
+        if (!assetManager) {
+            throw new Error(`ShaderLibrary has no AssetManager bound, cannot load: ${path}`);
+        }
+
+        let resolved = assetManager.loadContext.fileSystem.resolve(path, SHADER_ROOT);
+        if (!resolved.endsWith('.wgsl')) {
+            resolved += '.wgsl';
+        }
+
+        let asset = this.requested.get(resolved);
+        if (!asset) {
+            asset = assetManager.acquire(new ShaderAsset(resolved));
+            this.requested.set(resolved, asset);
+            assetManager.ensureReady(asset).catch(err => {
+                console.error(`Failed to load shader ${resolved}:`, err);
+            });
+        }
+        return asset;
+    }
+
+    /**
+     * 获取着色器的变体（首次使用时预处理并创建模块）
+     * - 变体 key 与宏的书写顺序无关；无宏时即为 asset.handle
+     * - 源码尚未就绪或预处理失败时返回 undefined
+     */
+    getVariant(asset: ShaderAsset, defines: ShaderDefines = {}): ShaderHandle | undefined {
+        const key = getVariantKey(defines);
+        if (key === '') {
+            return asset.handle;
+        }
+
+        let variants = this.variants.get(asset.handle);
+        if (!variants) {
+            variants = new Map();
+            this.variants.set(asset.handle, variants);
+        }
+
+        let variant = variants.get(key);
+        if (!variant) {
+            if (asset.state !== AssetState.Ready) {
+                return undefined;
+            }
+            variant = { handle: createShaderHandle(`${asset.id}[${key}]`), asset, defines };
+            variants.set(key, variant);
+            this.buildVariant(variant);
+        }
+        return variant.handle;
+    }
+
+    //#region 模块（RenderSystem 作为 IShaderModuleFactory 转发）
+    createShaderModule(handle: ShaderHandle, code: string, sourceMap?: ShaderSourceMap): void {
+        const label = describeHandle(handle);
+        const version = (this.versions.get(handle) ?? 0) + 1;
+        this.versions.set(handle, version);
+
+        // 源码更新（热重载）时重新生成该着色器的所有变体
+        for (const variant of this.variants.get(handle)?.values() ?? []) {
+            this.buildVariant(variant);
+        }
+
+        let reflection: ShaderReflection;
+        try {
+            reflection = reflectWgsl(code);
+        } catch (err) {
+            // 无法生成布局的模块不可用
+            this.fail(handle, [fromError(err, label)]);
+            return;
+        }
+
+        const shader: CompiledShader = {
+            module: this.device.createShaderModule({ label, code }),
+            reflection,
+        };
+        this.statuses.set(handle, 'compiling');
+
+        shader.module.getCompilationInfo().then(info => {
+            // 已有更新的编译，或 Handle 已销毁
+            if (!this.versions.has(handle) || this.versions.get(handle) !== version) {
+                return;
+            }
+
+            const diagnostics = info.messages.map(message => fromCompilationMessage(message, label, sourceMap));
+            if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+                this.fail(handle, diagnostics);
+                return;
+            }
+
+            for (const warning of diagnostics) {
+                console.warn(formatDiagnostic(warning));
+            }
+
+            const replaced = this.compiled.has(handle);
+            this.compiled.set(handle, shader);
+            this.statuses.set(handle, 'ready');
+            this.diagnostics.set(handle, diagnostics);
+            this.emitDiagnostics({ handle, status: 'ready', diagnostics, usingPrevious: false });
+            if (replaced) {
+                this.emitChanged(handle);
+            }
+        }).catch(err => {
+            this.fail(handle, [fromError(err, label)]);
+        });
+    }
+
+    /**
+     * 已通过编译检查的模块（编译中、失败且没有上一个可用模块时返回 undefined）
+     */
+    get(handle: ShaderHandle): GPUShaderModule | undefined {
+        return this.compiled.get(handle)?.module;
+    }
+
+    /**
+     * 最近一次编译的状态（从未创建时返回 undefined）
+     */
+    getStatus(handle: ShaderHandle): ShaderCompileStatus | undefined {
+        return this.statuses.get(handle);
+    }
+
+    /**
+     * 最近一次编译的诊断
+     */
+    getDiagnostics(handle: ShaderHandle): readonly ShaderDiagnostic[] {
+        return this.diagnostics.get(handle) ?? [];
+    }
+
+    /**
+     * 是否需要回退着色器：没有可用的模块（编译中、编译失败，或源码加载失败）
+     */
+    needsFallback(handle: ShaderHandle): boolean {
+        return !this.compiled.has(handle);
+    }
+
+    /**
+     * 模块中的所有入口函数（尚未创建时返回 undefined）
+     */
+    getEntryPoints(handle: ShaderHandle): ShaderEntryPoints | undefined {
+        return this.compiled.get(handle)?.reflection.entryPoints;
+    }
+
+    /**
+     * 模块的反射信息（与当前使用的模块一致；尚未创建时返回 undefined）
+     */
+    getReflection(handle: ShaderHandle): ShaderReflection | undefined {
+        return this.compiled.get(handle)?.reflection;
+    }
+
+    /**
+     * 指定阶段的入口函数
+     * @param name 期望的函数名；缺省时取该阶段的第一个入口
+     * @returns 模块未创建或没有匹配的入口时返回 undefined
+     */
+    getEntryPoint(handle: ShaderHandle, stage: ShaderStage, name?: string): string | undefined {
+        const candidates = this.getEntryPoints(handle)?.[stage] ?? [];
+        return name === undefined ? candidates[0] : candidates.find(candidate => candidate === name);
+    }
+
+    // GPUShaderModule 没有 destroy，移除引用即可；变体随之销毁并释放句柄
+    destroy(handle: ShaderHandle): void {
+        this.compiled.delete(handle);
+        this.versions.delete(handle);
+        this.statuses.delete(handle);
+        this.diagnostics.delete(handle);
+
+        for (const variant of this.variants.get(handle)?.values() ?? []) {
+            this.destroy(variant.handle);
+            freeHandle(variant.handle);
+        }
+        this.variants.delete(handle);
+    }
+    //#endregion
+
+    /**
+     * 订阅模块替换（依赖该模块的管线需要重建）
+     * @returns 取消订阅的函数
+     */
+    onModuleChanged(listener: ShaderModuleChangedListener): () => void {
+        this.changedListeners.add(listener);
+        return () => {
+            this.changedListeners.delete(listener);
+        };
+    }
+
+    /**
+     * 订阅编译诊断（每次编译结束时发出，包括成功）
+     * @returns 取消订阅的函数
+     */
+    onDiagnostics(listener: ShaderDiagnosticsListener): () => void {
+        this.diagnosticsListeners.add(listener);
+        return () => {
+            this.diagnosticsListeners.delete(listener);
+        };
+    }
+
+    private buildVariant(variant: ShaderVariant): void {
+        try {
+            const { code, sourceMap } = variant.asset.preprocess(variant.defines);
+            this.createShaderModule(variant.handle, code, sourceMap);
+        } catch (err) {
+            // 保留上一个可用的变体模块
+            this.versions.set(variant.handle, (this.versions.get(variant.handle) ?? 0) + 1);
+            this.fail(variant.handle, [fromError(err, describeHandle(variant.handle))]);
+        }
+    }
+
+    // 记录失败并报告；已有可用模块时继续使用
+    private fail(handle: ShaderHandle, diagnostics: readonly ShaderDiagnostic[]): void {
+        const usingPrevious = this.compiled.has(handle);
+        this.statuses.set(handle, 'failed');
+        this.diagnostics.set(handle, diagnostics);
+
+        console.error(
+            `${describeHandle(handle)} failed to compile${usingPrevious ? ', keeping previous module' : ''}:\n` +
+            diagnostics.map(diagnostic => `  ${formatDiagnostic(diagnostic)}`).join('\n')
+        );
+        this.emitDiagnostics({ handle, status: 'failed', diagnostics, usingPrevious });
+    }
+
+    private emitChanged(handle: ShaderHandle): void {
+        for (const listener of [...this.changedListeners]) {
+            try {
+                listener(handle);
+            } catch (err) {
+                console.error(`Shader module listener failed (${describeHandle(handle)}):`, err);
+            }
+        }
+    }
+
+    private emitDiagnostics(event: ShaderDiagnosticsEvent): void {
+        for (const listener of [...this.diagnosticsListeners]) {
+            try {
+                listener(event);
+            } catch (err) {
+                console.error(`Shader diagnostics listener failed (${describeHandle(event.handle)}):`, err);
+            }
+        }
+    }
+}
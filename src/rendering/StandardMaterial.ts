@@ -0,0 +1,54 @@
+import { MaterialData } from "@/assets/asset_types/MaterialAsset";
+import { Material, MaterialShader } from "./Material";
+import { StructLayout } from "./StructLayout";
+
+/** 内置 unlit 着色器（相对内置着色器目录） */
+export const STANDARD_MATERIAL_SHADER: MaterialShader = {
+    vertex: 'basic.vert.wgsl',
+    fragment: 'basic.frag.wgsl',
+};
+
+/**
+ * 内置着色器的参数块（与 basic.frag.wgsl 中的 MaterialParams 一致）
+ */
+export const StandardMaterialParams = new StructLayout('MaterialParams', {
+    baseColorFactor: 'vec4<f32>',
+    emissiveFactor: 'vec3<f32>',
+    alphaCutoff: 'f32',
+});
+
+export type StandardMaterial = Material<typeof StandardMaterialParams extends StructLayout<infer F> ? F : never>;
+
+/**
+ * 由导入器提供的材质描述创建内置 unlit 材质
+ * - 纹理按 MaterialData 的字段名绑定，内置着色器未使用的贴图仍保留（作为依赖加载）
+ * - alphaMode：blend 使用 alpha 混合且不写深度；mask 定义 ALPHA_MASK（按 alphaCutoff 丢弃片元）
+ * - doubleSided 时关闭背面剔除
+ */
+export function createStandardMaterial(data: MaterialData): StandardMaterial {
+    const material: StandardMaterial = new Material({
+        name: data.name,
+        shader: {
+            ...STANDARD_MATERIAL_SHADER,
+            defines: { ALPHA_MASK: data.alphaMode === 'mask' },
+        },
+        parameters: StandardMaterialParams,
+        values: {
+            baseColorFactor: data.baseColorFactor,
+            emissiveFactor: data.emissiveFactor,
+            alphaCutoff: data.alphaCutoff,
+        },
+        renderState: {
+            blendMode: data.alphaMode === 'blend' ? 'alpha' : 'opaque',
+            cullMode: data.doubleSided ? 'none' : 'back',
+            depthWrite: data.alphaMode !== 'blend',
+        },
+    });
+
+    material.setTexture('baseColorTexture', data.baseColorTexture);
+    material.setTexture('metallicRoughnessTexture', data.metallicRoughnessTexture);
+    material.setTexture('normalTexture', data.normalTexture, 'normal');
+    material.setTexture('occlusionTexture', data.occlusionTexture);
+    material.setTexture('emissiveTexture', data.emissiveTexture);
+    return material;
+}
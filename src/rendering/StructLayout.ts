@@ -0,0 +1,343 @@
+import { ShaderStruct, getTypeLayout, normalizeType } from "./WgslReflection";
+
+/** 支持的基础类型（均为 f32 分量） */
+export type StructPrimitiveType = 'f32' | 'vec2<f32>' | 'vec3<f32>' | 'vec4<f32>' | 'mat3x3<f32>' | 'mat4x4<f32>';
+
+/** 定长数组，由 arrayOf 创建 */
+export interface StructArrayType<T extends StructFieldType = StructFieldType> {
+    readonly element: T;
+    readonly length: number;
+}
+
+export type StructFieldType = StructPrimitiveType | StructArrayType | StructLayout;
+
+/** 字段声明（按声明顺序排列成员） */
+export type StructFields = Record<string, StructFieldType>;
+
+/**
+ * 结构体所在的地址空间
+ * - uniform：数组步长必须是 16 的倍数，结构体 / 数组成员按 16 对齐（自动加 @align / @size）
+ * - storage：按自然布局
+ */
+export type StructAddressSpace = 'uniform' | 'storage';
+
+/**
+ * 字段对应的 CPU 侧值
+ * - f32 为 number；向量 / 矩阵为按列排列的分量（如 gl-matrix 的 vec / mat）
+ * - mat3x3 接受 9 个分量（写入时按列补齐到 vec4）或已补齐的 12 个分量
+ */
+export type StructFieldValue<T> =
+    T extends 'f32' ? number :
+    T extends StructPrimitiveType ? ArrayLike<number> :
+    T extends StructArrayType<infer E> ? ArrayLike<StructFieldValue<E>> :
+    T extends StructLayout<infer F> ? StructValues<F> :
+    never;
+
+/** 写入的值，未给出的字段保持不变 */
+export type StructValues<F extends StructFields> = { [K in keyof F]?: StructFieldValue<F[K]> };
+
+/**
+ * 成员的内存布局（字节）
+ */
+export interface StructMember {
+    name: string;
+    type: StructFieldType;
+    offset: number;
+    size: number;
+    align: number;
+    /** 需要在 WGSL 中显式声明的 @align / @size（与自然布局不同时） */
+    alignAttribute?: number;
+    sizeAttribute?: number;
+}
+
+/**
+ * 结构体声明无法满足 WGSL 布局规则，或与着色器中的声明不一致
+ * - problems 为逐条说明
+ */
+export class StructLayoutError extends Error {
+    readonly struct: string;
+    readonly problems: readonly string[];
+
+    constructor(struct: string, problems: readonly string[]) {
+        super(`Struct ${struct} layout is invalid:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = 'StructLayoutError';
+        this.struct = struct;
+        this.problems = problems;
+    }
+}
+
+/**
+ * 定长数组字段
+ */
+export function arrayOf<T extends StructFieldType>(element: T, length: number): StructArrayType<T> {
+    if (!Number.isInteger(length) || length <= 0) {
+        throw new RangeError(`Array length must be a positive integer: ${length}`);
+    }
+    return { element, length };
+}
+
+function roundUp(value: number, align: number): number {
+    return Math.ceil(value / align) * align;
+}
+
+function isArrayType(type: StructFieldType): type is StructArrayType {
+    return typeof type === 'object' && !(type instanceof StructLayout);
+}
+
+/**
+ * 在 TypeScript 中声明的 WGSL 结构体
+ * - 按 WGSL 规则计算成员偏移、对齐与填充
+ * - 生成对应的 WGSL struct 源码（toWgsl）
+ * - 按布局把值写入 ArrayBuffer（write / create），CPU 与着色器的布局来自同一份声明
+ *
+ * @example
+ * const Light = new StructLayout('Light', { position: 'vec3<f32>', intensity: 'f32' });
+ * const data = Light.create({ position: [0, 1, 0], intensity: 2 });
+ */
+export class StructLayout<F extends StructFields = StructFields> {
+    readonly name: string;
+    readonly addressSpace: StructAddressSpace;
+    readonly members: readonly StructMember[];
+    readonly size: number;
+    readonly align: number;
+
+    /**
+     * @throws StructLayoutError 声明不满足地址空间的布局规则时
+     */
+    constructor(name: string, fields: F, addressSpace: StructAddressSpace = 'uniform') {
+        this.name = name;
+        this.addressSpace = addressSpace;
+
+        const members: StructMember[] = [];
+        const problems: string[] = [];
+        let offset = 0;
+        let align = 1;
+
+        for (const [field, type] of Object.entries(fields)) {
+            let layout: { size: number; align: number };
+            try {
+                layout = this.getLayout(type, field);
+            } catch (err) {
+                problems.push(err instanceof Error ? err.message : String(err));
+                continue;
+            }
+
+            const member: StructMember = { name: field, type, offset: 0, ...layout };
+            // uniform 中结构体与数组成员按 16 对齐，结构体成员之后的成员至少间隔 roundUp(16, size)
+            if (addressSpace === 'uniform' && typeof type === 'object') {
+                member.align = roundUp(layout.align, 16);
+                if (type instanceof StructLayout) {
+                    member.size = roundUp(layout.size, 16);
+                }
+            }
+            if (member.align !== layout.align) {
+                member.alignAttribute = member.align;
+            }
+            if (member.size !== layout.size) {
+                member.sizeAttribute = member.size;
+            }
+
+            member.offset = roundUp(offset, member.align);
+            offset = member.offset + member.size;
+            align = Math.max(align, member.align);
+            members.push(member);
+        }
+
+        if (members.length === 0 && problems.length === 0) {
+            problems.push('a struct must have at least one member');
+        }
+        if (problems.length > 0) {
+            throw new StructLayoutError(name, problems);
+        }
+
+        this.members = members;
+        this.align = align;
+        this.size = roundUp(offset, align);
+    }
+
+    /**
+     * 生成 WGSL 源码（依赖的结构体在前，每个只声明一次）
+     */
+    toWgsl(): string {
+        const structs = new Map<string, StructLayout>();
+        const collect = (layout: StructLayout): void => {
+            for (const member of layout.members) {
+                let type = member.type;
+                while (isArrayType(type)) {
+                    type = type.element;
+                }
+                if (type instanceof StructLayout) {
+                    collect(type);
+                }
+            }
+            const existing = structs.get(layout.name);
+            if (existing && existing !== layout) {
+                throw new StructLayoutError(this.name, [`two different structs are named '${layout.name}'`]);
+            }
+            structs.set(layout.name, layout);
+        };
+        collect(this);
+
+        return [...structs.values()].map(layout => layout.toWgslStruct()).join('\n\n');
+    }
+
+    /**
+     * 按布局写入值
+     * @param target 目标缓冲区（写入范围为 [byteOffset, byteOffset + size)）
+     * @param byteOffset 起始字节偏移（4 字节对齐）
+     */
+    write(target: ArrayBuffer | ArrayBufferView, values: StructValues<F>, byteOffset = 0): void {
+        const buffer = target instanceof ArrayBuffer ? target : target.buffer;
+        const base = (target instanceof ArrayBuffer ? 0 : target.byteOffset) + byteOffset;
+        const byteLength = target.byteLength;
+
+        if (base % 4 !== 0) {
+            throw new RangeError(`Struct ${this.name} must be written at a 4-byte aligned offset, got ${base}`);
+        }
+        if (byteOffset < 0 || byteOffset + this.size > byteLength) {
+            throw new RangeError(
+                `Struct ${this.name} (${this.size} bytes) at offset ${byteOffset} exceeds the target (${byteLength} bytes)`
+            );
+        }
+
+        this.writeStruct(new Float32Array(buffer, base, this.size / 4), 0, values);
+    }
+
+    /**
+     * 创建一份大小为 size 的数据并写入初值
+     */
+    create(values: StructValues<F> = {}): ArrayBuffer {
+        const data = new ArrayBuffer(this.size);
+        this.write(data, values);
+        return data;
+    }
+
+    /**
+     * 与着色器反射出的同名结构体比较
+     * @returns 不一致之处（一致时为空数组）
+     */
+    findMismatches(reflected: ShaderStruct | undefined): string[] {
+        if (!reflected) {
+            return [`struct ${this.name} is not declared in the shader`];
+        }
+
+        const problems: string[] = [];
+        for (const member of this.members) {
+            const actual = reflected.members.find(m => m.name === member.name);
+            if (!actual) {
+                problems.push(`member '${member.name}' is missing in the shader`);
+            } else if (normalizeType(actual.type) !== normalizeType(this.getTypeName(member.type))) {
+                problems.push(`member '${member.name}' is ${actual.type} in the shader but ${this.getTypeName(member.type)} here`);
+            } else if (actual.offset !== member.offset) {
+                problems.push(`member '${member.name}' is at offset ${actual.offset} in the shader but ${member.offset} here`);
+            }
+        }
+        for (const actual of reflected.members) {
+            if (!this.members.some(m => m.name === actual.name)) {
+                problems.push(`shader member '${actual.name}' is not declared here`);
+            }
+        }
+        if (problems.length === 0 && reflected.size !== this.size) {
+            problems.push(`size is ${reflected.size} bytes in the shader but ${this.size} here`);
+        }
+        return problems;
+    }
+
+    // 类型的自然布局（数组在 uniform 中检查步长）
+    private getLayout(type: StructFieldType, path: string): { size: number; align: number } {
+        if (type instanceof StructLayout) {
+            if (this.addressSpace === 'uniform' && type.addressSpace !== 'uniform') {
+                throw new Error(`${path}: struct ${type.name} must be declared for the uniform address space`);
+            }
+            return { size: type.size, align: type.align };
+        }
+        if (isArrayType(type)) {
+            const element = this.getLayout(type.element, `${path}[]`);
+            const stride = roundUp(element.size, element.align);
+            if (this.addressSpace === 'uniform' && stride % 16 !== 0) {
+                throw new Error(
+                    `${path}: array element stride ${stride} is not a multiple of 16 in the uniform address space (use vec4<f32> elements)`
+                );
+            }
+            return { size: stride * type.length, align: element.align };
+        }
+        return getTypeLayout(type, {});
+    }
+
+    private getTypeName(type: StructFieldType): string {
+        if (type instanceof StructLayout) {
+            return type.name;
+        }
+        if (isArrayType(type)) {
+            return `array<${this.getTypeName(type.element)}, ${type.length}>`;
+        }
+        return type;
+    }
+
+    private toWgslStruct(): string {
+        const lines = this.members.map(member => {
+            const attributes = [
+                member.alignAttribute !== undefined ? `@align(${member.alignAttribute}) ` : '',
+                member.sizeAttribute !== undefined ? `@size(${member.sizeAttribute}) ` : '',
+            ].join('');
+            return `    ${attributes}${member.name}: ${this.getTypeName(member.type)},`;
+        });
+        return `struct ${this.name} {\n${lines.join('\n')}\n}`;
+    }
+
+    // offset 以 f32 为单位
+    private writeStruct(target: Float32Array, offset: number, values: { readonly [name: string]: unknown }): void {
+        for (const member of this.members) {
+            const value = values[member.name];
+            if (value !== undefined) {
+                this.writeValue(target, offset + member.offset / 4, member.type, value);
+            }
+        }
+    }
+
+    // value 的类型由字段类型决定（StructValues 已约束），按 type 取用
+    private writeValue(target: Float32Array, offset: number, type: StructFieldType, value: unknown): void {
+        if (type instanceof StructLayout) {
+            type.writeStruct(target, offset, value as { readonly [name: string]: unknown });
+            return;
+        }
+        if (isArrayType(type)) {
+            const elements = value as ArrayLike<unknown>;
+            const element = this.getLayout(type.element, '');
+            const stride = roundUp(element.size, element.align) / 4;
+            const count = Math.min(type.length, elements.length);
+            for (let i = 0; i < count; i++) {
+                this.writeValue(target, offset + i * stride, type.element, elements[i]);
+            }
+            return;
+        }
+        if (type === 'f32') {
+            target[offset] = value as number;
+            return;
+        }
+
+        const components = value as ArrayLike<number>;
+        switch (type) {
+            case 'vec2<f32>':
+            case 'vec3<f32>':
+            case 'vec4<f32>':
+            case 'mat4x4<f32>': {
+                const count = getTypeLayout(type, {}).size / 4;
+                for (let i = 0; i < count; i++) {
+                    target[offset + i] = components[i];
+                }
+                break;
+            }
+            case 'mat3x3<f32>': {
+                // 每列占 vec4 的位置
+                const padded = components.length >= 12;
+                for (let column = 0; column < 3; column++) {
+                    for (let row = 0; row < 3; row++) {
+                        target[offset + column * 4 + row] = components[column * (padded ? 4 : 3) + row];
+                    }
+                }
+                break;
+            }
+        }
+    }
+}
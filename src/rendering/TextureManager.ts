@@ -0,0 +1,42 @@
+import { TextureHandle, describeHandle } from "@/assets/AssetHandle";
+import { TextureData } from "@/assets/asset_types/TextureAsset";
+import { HandleMap } from "./HandleMap";
+
+/**
+ * TextureManager 持有所有由 TextureHandle 注册的 GPUTexture
+ * - Handle 与 GPUTexture 一一对应，重复创建会替换旧纹理
+ */
+export class TextureManager {
+    private textures = new HandleMap<TextureHandle, GPUTexture>();
+
+    constructor(private device: GPUDevice) { }
+
+    createTexture(handle: TextureHandle, data: TextureData): void {
+        const { width, height, pixels, colorSpace } = data;
+
+        const texture = this.device.createTexture({
+            label: describeHandle(handle),
+            size: [width, height],
+            format: colorSpace === 'srgb' ? 'rgba8unorm-srgb' : 'rgba8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+        });
+
+        this.device.queue.writeTexture(
+            { texture },
+            pixels,
+            { bytesPerRow: width * 4, rowsPerImage: height },
+            [width, height]
+        );
+
+        this.textures.delete(handle)?.destroy();
+        this.textures.set(handle, texture);
+    }
+
+    get(handle: TextureHandle): GPUTexture | undefined {
+        return this.textures.get(handle);
+    }
+
+    destroy(handle: TextureHandle): void {
+        this.textures.delete(handle)?.destroy();
+    }
+}
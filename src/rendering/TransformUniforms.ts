@@ -0,0 +1,15 @@
+import { StructLayout } from "./StructLayout";
+
+/**
+ * 每次绘制的变换矩阵（group 0 / binding 0）
+ * - 与 shaders/common.wgsl 中的 Uniforms 一致；创建管线时按反射结果校验
+ * - 每次绘制从 UniformRingBuffer 分配，以动态偏移绑定
+ */
+export const TransformUniforms = new StructLayout('Uniforms', {
+    model: 'mat4x4<f32>',
+    view: 'mat4x4<f32>',
+    projection: 'mat4x4<f32>',
+});
+
+/** 着色器中 TransformUniforms 的变量名（该绑定使用动态偏移） */
+export const TRANSFORM_UNIFORMS_BINDING = 'uniforms';
@@ -0,0 +1,83 @@
+/**
+ * 瞬态纹理的完整描述（含最终 usage）
+ */
+export interface TransientTextureDesc {
+    format: GPUTextureFormat;
+    width: number;
+    height: number;
+    sampleCount: number;
+    usage: GPUTextureUsageFlags;
+}
+
+export interface PooledTexture {
+    key: string;
+    texture: GPUTexture;
+    view: GPUTextureView;
+    inUse: boolean;
+    lastUsedFrame: number;
+}
+
+/**
+ * 渲染图的瞬态纹理池
+ * - 同一帧内 release 之后的纹理可被描述相同的其他资源复用（别名）
+ * - 跨帧保留，连续两帧未使用的纹理被销毁
+ */
+export class TransientTexturePool {
+    private device: GPUDevice;
+    private textures: PooledTexture[] = [];
+    private frame = 0;
+
+    constructor(device: GPUDevice) {
+        this.device = device;
+    }
+
+    /** 当前持有的 GPUTexture 数量 */
+    get size(): number {
+        return this.textures.length;
+    }
+
+    acquire(desc: TransientTextureDesc, label: string): PooledTexture {
+        const key = `${desc.format}_${desc.width}x${desc.height}_x${desc.sampleCount}_${desc.usage}`;
+        let entry = this.textures.find(t => !t.inUse && t.key === key);
+        if (!entry) {
+            const texture = this.device.createTexture({
+                label: `Transient ${label}`,
+                size: [Math.max(1, desc.width), Math.max(1, desc.height)],
+                format: desc.format,
+                sampleCount: desc.sampleCount,
+                usage: desc.usage,
+            });
+            entry = { key, texture, view: texture.createView(), inUse: false, lastUsedFrame: this.frame };
+            this.textures.push(entry);
+        }
+        entry.inUse = true;
+        entry.lastUsedFrame = this.frame;
+        return entry;
+    }
+
+    release(entry: PooledTexture): void {
+        entry.inUse = false;
+    }
+
+    /**
+     * 结束一帧：释放所有纹理，销毁长期未使用的纹理
+     */
+    endFrame(): void {
+        this.textures = this.textures.filter(entry => {
+            entry.inUse = false;
+            if (this.frame - entry.lastUsedFrame >= 2) {
+                entry.texture.destroy();
+                return false;
+            }
+            return true;
+        });
+        this.frame++;
+    }
+
+    destroy(): void {
+        for (const entry of this.textures) {
+            entry.texture.destroy();
+        }
+        this.textures = [];
+    }
+}
@@ -0,0 +1,132 @@
+import { StructFields, StructLayout, StructValues } from "./StructLayout";
+
+// 初始容量（字节）
+const INITIAL_CAPACITY = 64 * 1024;
+
+function roundUp(value: number, align: number): number {
+    return Math.ceil(value / align) * align;
+}
+
+/**
+ * 每帧复用的 uniform 环形缓冲区
+ * - 每次绘制分配一段按 minUniformBufferOffsetAlignment 对齐的区域，以动态偏移绑定
+ * - 所有 Renderer / Camera 共享同一个 GPUBuffer 与 BindGroup，帧末一次 writeBuffer 上传
+ * - 容量不足时扩容：已写入的数据先上传到旧缓冲区（已编码的 BindGroup 仍引用它），旧缓冲区在下一帧销毁
+ */
+export class UniformRingBuffer {
+    private readonly device: GPUDevice;
+    private readonly label: string;
+    /** 动态偏移的对齐要求 */
+    readonly alignment: number;
+
+    private _buffer: GPUBuffer;
+    private staging: ArrayBuffer;
+    private cursor = 0;
+    // 扩容替换下来的缓冲区（本帧提交后才能销毁）
+    private retired: GPUBuffer[] = [];
+    // BindGroupLayout → 绑定大小 → BindGroup（缓冲区替换时清空）
+    private bindGroups = new Map<GPUBindGroupLayout, Map<number, GPUBindGroup>>();
+
+    constructor(device: GPUDevice, label = 'Uniform ring buffer', capacity = INITIAL_CAPACITY) {
+        this.device = device;
+        this.label = label;
+        this.alignment = device.limits.minUniformBufferOffsetAlignment;
+        this.staging = new ArrayBuffer(roundUp(capacity, this.alignment));
+        this._buffer = this.createBuffer(this.staging.byteLength);
+    }
+
+    get buffer(): GPUBuffer {
+        return this._buffer;
+    }
+
+    /** 本帧已分配的字节数 */
+    get usedBytes(): number {
+        return this.cursor;
+    }
+
+    /**
+     * 开始新的一帧：回收上一帧的全部分配
+     * - 上一帧的数据已随提交上传，可以直接覆盖
+     */
+    beginFrame(): void {
+        for (const buffer of this.retired) {
+            buffer.destroy();
+        }
+        this.retired = [];
+        this.cursor = 0;
+    }
+
+    /**
+     * 分配一段区域并按结构体布局写入
+     * @returns 动态偏移（setBindGroup 的 dynamicOffsets）
+     */
+    allocate<F extends StructFields>(layout: StructLayout<F>, values: StructValues<F>): number {
+        if (this.cursor + layout.size > this.staging.byteLength) {
+            this.grow(layout.size);
+        }
+
+        const offset = this.cursor;
+        layout.write(this.staging, values, offset);
+        this.cursor = roundUp(offset + layout.size, this.alignment);
+        return offset;
+    }
+
+    /**
+     * 以动态偏移绑定本缓冲区的 BindGroup（binding 0）
+     * @param layout binding 0 需声明 hasDynamicOffset
+     * @param size 每次绘制可见的字节数（通常为结构体大小）
+     */
+    getBindGroup(layout: GPUBindGroupLayout, size: number): GPUBindGroup {
+        let bySize = this.bindGroups.get(layout);
+        if (!bySize) {
+            bySize = new Map();
+            this.bindGroups.set(layout, bySize);
+        }
+
+        let bindGroup = bySize.get(size);
+        if (!bindGroup) {
+            bindGroup = this.device.createBindGroup({
+                label: `${this.label} (${size} bytes)`,
+                layout,
+                entries: [{ binding: 0, resource: { buffer: this._buffer, size } }],
+            });
+            bySize.set(size, bindGroup);
+        }
+        return bindGroup;
+    }
+
+    /**
+     * 上传本帧写入的数据（在提交命令之前调用）
+     */
+    upload(): void {
+        if (this.cursor > 0) {
+            this.device.queue.writeBuffer(this._buffer, 0, this.staging, 0, this.cursor);
+        }
+    }
+
+    destroy(): void {
+        this.beginFrame();
+        this._buffer.destroy();
+        this.bindGroups.clear();
+    }
+
+    private grow(required: number): void {
+        // 已编码的绘制仍引用旧缓冲区
+        this.upload();
+        this.retired.push(this._buffer);
+
+        const capacity = roundUp(Math.max(this.staging.byteLength * 2, required), this.alignment);
+        this.staging = new ArrayBuffer(capacity);
+        this._buffer = this.createBuffer(capacity);
+        this.bindGroups.clear();
+        this.cursor = 0;
+    }
+
+    private createBuffer(size: number): GPUBuffer {
+        return this.device.createBuffer({
+            label: this.label,
+            size,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+    }
+}
@@ -0,0 +1,69 @@
+import { VertexFormat, VertexLayout } from "@/assets/asset_types/MeshAsset";
+import { ShaderVertexInput } from "./WgslReflection";
+
+/**
+ * Mesh 的顶点布局不满足着色器的顶点输入
+ * - problems 为逐条的不匹配说明
+ */
+export class VertexLayoutMismatchError extends Error {
+    readonly shader: string;
+    readonly problems: readonly string[];
+
+    constructor(shader: string, problems: readonly string[]) {
+        super(`Vertex layout does not match shader ${shader}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = 'VertexLayoutMismatchError';
+        this.shader = shader;
+        this.problems = problems;
+    }
+}
+
+// 顶点格式 → 着色器中对应的标量类型与分量数
+const FORMAT_INFO: Record<VertexFormat, { scalar: string; components: number }> = {
+    float32x2: { scalar: 'f32', components: 2 },
+    float32x3: { scalar: 'f32', components: 3 },
+    float32x4: { scalar: 'f32', components: 4 },
+};
+
+/**
+ * 按着色器的顶点输入生成 GPUVertexBufferLayout
+ * - 输入按名称匹配顶点语义（position / normal / uv / color）
+ * - 着色器不使用的属性不声明（stride 保持不变）
+ * @param shader 着色器描述（用于错误信息）
+ * @throws VertexLayoutMismatchError 缺少属性或类型不兼容时
+ */
+export function createVertexBufferLayout(
+    layout: VertexLayout,
+    inputs: readonly ShaderVertexInput[],
+    shader: string
+): GPUVertexBufferLayout {
+    const attributes: GPUVertexAttribute[] = [];
+    const problems: string[] = [];
+    const provided = layout.attributes.map(a => `${a.semantic} (${a.format})`).join(', ') || 'none';
+
+    for (const input of inputs) {
+        const attribute = layout.attributes.find(a => a.semantic === input.name);
+        if (!attribute) {
+            problems.push(
+                `missing '${input.name}' for @location(${input.location}) ${input.type}; mesh provides: ${provided}`
+            );
+            continue;
+        }
+
+        const scalar = /^(?:vec[234]<(\w+)>|(\w+))$/.exec(input.type);
+        const inputScalar = scalar?.[1] ?? scalar?.[2];
+        const format = FORMAT_INFO[attribute.format];
+        if (inputScalar !== format.scalar && !(inputScalar === 'f16' && format.scalar === 'f32')) {
+            problems.push(
+                `'${input.name}' is ${attribute.format} in the mesh but @location(${input.location}) expects ${input.type}`
+            );
+            continue;
+        }
+
+        attributes.push({ shaderLocation: input.location, offset: attribute.offset, format: attribute.format });
+    }
+
+    if (problems.length > 0) {
+        throw new VertexLayoutMismatchError(shader, problems);
+    }
+    return { arrayStride: layout.arrayStride, attributes };
+}
@@ -0,0 +1,609 @@
+import { lazyFlags } from "./GpuFlags";
+
+/**
+ * 着色器阶段
+ */
+export type ShaderStage = 'vertex' | 'fragment' | 'compute';
+
+/**
+ * 模块中各阶段的入口函数名（按源码顺序）
+ */
+export interface ShaderEntryPoints {
+    vertex: string[];
+    fragment: string[];
+    compute: string[];
+}
+
+/** 资源绑定的类别（对应 GPUBindGroupLayoutEntry 的各种资源） */
+export type ShaderBindingKind =
+    | 'uniform'
+    | 'storage'
+    | 'read-only-storage'
+    | 'sampler'
+    | 'comparison-sampler'
+    | 'texture'
+    | 'storage-texture'
+    | 'external-texture';
+
+/**
+ * 模块作用域中 @group / @binding 声明的资源
+ */
+export interface ShaderBinding {
+    group: number;
+    binding: number;
+    name: string;
+    kind: ShaderBindingKind;
+    /** WGSL 中的类型（如 Uniforms、texture_2d<f32>） */
+    type: string;
+    /** 缓冲区绑定的最小字节数（uniform / storage） */
+    size?: number;
+    sampleType?: GPUTextureSampleType;
+    viewDimension?: GPUTextureViewDimension;
+    multisampled?: boolean;
+    format?: GPUTextureFormat;
+    access?: GPUStorageTextureAccess;
+    /** 实际使用该资源的入口函数（含经其调用的函数间接使用） */
+    entryPoints: string[];
+}
+
+/**
+ * 顶点着色器的 @location 输入
+ */
+export interface ShaderVertexInput {
+    location: number;
+    name: string;
+    /** 规范化后的类型（如 vec3<f32>） */
+    type: string;
+}
+
+/**
+ * 结构体成员（按 WGSL 内存布局规则计算偏移）
+ */
+export interface ShaderStructMember {
+    name: string;
+    type: string;
+    offset: number;
+    size: number;
+    /** @location（用作阶段间输入 / 输出时） */
+    location?: number;
+}
+
+export interface ShaderStruct {
+    name: string;
+    members: ShaderStructMember[];
+    size: number;
+    align: number;
+}
+
+/**
+ * 着色器模块的反射信息
+ */
+export interface ShaderReflection {
+    entryPoints: ShaderEntryPoints;
+    bindings: ShaderBinding[];
+    /** 顶点入口函数名 → @location 输入（按 location 排序） */
+    vertexInputs: Record<string, ShaderVertexInput[]>;
+    structs: Record<string, ShaderStruct>;
+}
+
+// @vertex / @fragment / @compute，其后可跟其他属性（如 @workgroup_size(8, 8)），再到 fn 名
+const ENTRY_POINT = /@(vertex|fragment|compute)\b(?:\s*@\w+(?:\s*\([^)]*\))?)*\s*fn\s+([A-Za-z_]\w*)/g;
+// 连续的属性，如 @group(0) @binding(1)
+const ATTRIBUTES = /^((?:\s*@\w+(?:\s*\([^)]*\))?)*)\s*/;
+const ATTRIBUTE = /@(\w+)(?:\s*\(\s*([^)]*?)\s*\))?/g;
+const STRUCT = /\bstruct\s+([A-Za-z_]\w*)\s*\{/g;
+const GLOBAL_VAR = /((?:@\w+(?:\s*\([^)]*\))?\s*)+)var(?:\s*<([^>]*)>)?\s+([A-Za-z_]\w*)\s*:\s*([^;=]+?)\s*[;=]/g;
+const FUNCTION = /\bfn\s+([A-Za-z_]\w*)\s*\(/g;
+
+// 简写类型别名（vec3f、mat4x4f 等）
+const TYPE_ALIAS = /^(vec[234]|mat[234]x[234])([fhiu])$/;
+const ALIAS_SCALAR: Record<string, string> = { f: 'f32', h: 'f16', i: 'i32', u: 'u32' };
+
+/**
+ * 去掉 WGSL 注释（行注释与可嵌套的块注释），保留换行以维持行号
+ */
+export function stripComments(code: string): string {
+    let result = '';
+    let depth = 0;
+    for (let i = 0; i < code.length; i++) {
+        const pair = code.substring(i, i + 2);
+        if (pair === '/*') {
+            depth++;
+            i++;
+        } else if (depth > 0 && pair === '*/') {
+            depth--;
+            i++;
+        } else if (depth === 0 && pair === '//') {
+            while (i < code.length && code[i] !== '\n') {
+                i++;
+            }
+            result += '\n';
+        } else if (depth === 0 || code[i] === '\n') {
+            result += code[i];
+        }
+    }
+    return result;
+}
+
+/**
+ * 从源码中查找入口函数（不依赖约定的 vs_main / fs_main / main）
+ */
+export function findEntryPoints(code: string): ShaderEntryPoints {
+    const entryPoints: ShaderEntryPoints = { vertex: [], fragment: [], compute: [] };
+    for (const match of stripComments(code).matchAll(ENTRY_POINT)) {
+        entryPoints[match[1] as ShaderStage].push(match[2]);
+    }
+    return entryPoints;
+}
+
+/**
+ * 反射 WGSL 模块：入口函数、资源绑定、顶点输入与结构体布局
+ * - 只做声明级别的解析，源码本身的合法性由编译器检查
+ */
+export function reflectWgsl(code: string): ShaderReflection {
+    const source = stripComments(code);
+    const entryPoints = findEntryPoints(source);
+    const structs = parseStructs(source);
+    const functions = parseFunctions(source);
+
+    // 各入口函数可达的函数体（含自身）
+    const reachable = new Map<string, string[]>();
+    for (const stage of Object.keys(entryPoints) as ShaderStage[]) {
+        for (const entry of entryPoints[stage]) {
+            reachable.set(entry, collectReachable(entry, functions));
+        }
+    }
+
+    const bindings: ShaderBinding[] = [];
+    for (const match of source.matchAll(GLOBAL_VAR)) {
+        const attributes = parseAttributes(match[1]);
+        if (!attributes.has('group') || !attributes.has('binding')) {
+            continue;
+        }
+        const name = match[3];
+        const usage = new RegExp(`\\b${name}\\b`);
+        const users = [...reachable.keys()].filter(entry => reachable.get(entry)!.some(body => usage.test(body)));
+        bindings.push({
+            group: parseInt(attributes.get('group')!, 10),
+            binding: parseInt(attributes.get('binding')!, 10),
+            name,
+            ...describeResource(match[2], normalizeType(match[4]), structs),
+            entryPoints: users,
+        });
+    }
+    bindings.sort((a, b) => a.group - b.group || a.binding - b.binding);
+
+    const vertexInputs: Record<string, ShaderVertexInput[]> = {};
+    for (const entry of entryPoints.vertex) {
+        const fn = functions.get(entry);
+        vertexInputs[entry] = fn ? parseVertexInputs(fn.params, structs) : [];
+    }
+
+    return { entryPoints, bindings, vertexInputs, structs };
+}
+
+/**
+ * 规范化类型写法：去空白、展开别名（vec3f → vec3<f32>）
+ */
+export function normalizeType(type: string): string {
+    const compact = type.replace(/\s+/g, '');
+    const alias = TYPE_ALIAS.exec(compact);
+    return alias ? `${alias[1]}<${ALIAS_SCALAR[alias[2]]}>` : compact;
+}
+
+/**
+ * 按 WGSL 内存布局规则计算类型的大小与对齐
+ * - 运行时大小的数组按一个元素计（作为最小绑定大小）
+ */
+export function getTypeLayout(type: string, structs: Record<string, ShaderStruct>): { size: number; align: number } {
+    const normalized = normalizeType(type);
+
+    const scalar = SCALAR_SIZE[normalized];
+    if (scalar !== undefined) {
+        return { size: scalar, align: scalar };
+    }
+
+    const atomic = /^atomic<(.+)>$/.exec(normalized);
+    if (atomic) {
+        return getTypeLayout(atomic[1], structs);
+    }
+
+    const vector = /^vec([234])<(.+)>$/.exec(normalized);
+    if (vector) {
+        const count = Number(vector[1]);
+        const component = SCALAR_SIZE[vector[2]];
+        return { size: count * component, align: (count === 3 ? 4 : count) * component };
+    }
+
+    const matrix = /^mat([234])x([234])<(.+)>$/.exec(normalized);
+    if (matrix) {
+        const column = getTypeLayout(`vec${matrix[2]}<${matrix[3]}>`, structs);
+        return { size: Number(matrix[1]) * roundUp(column.size, column.align), align: column.align };
+    }
+
+    const array = /^array<(.+?)(?:,(\w+))?>$/.exec(normalized);
+    if (array) {
+        const element = getTypeLayout(array[1], structs);
+        const stride = roundUp(element.size, element.align);
+        const count = array[2] !== undefined ? parseInt(array[2], 10) : 1;
+        return { size: stride * count, align: element.align };
+    }
+
+    const struct = structs[normalized];
+    if (struct) {
+        return { size: struct.size, align: struct.align };
+    }
+
+    throw new Error(`Unknown WGSL type: ${type}`);
+}
+
+/**
+ * 管线中的一个阶段：模块反射信息 + 所用的入口函数
+ */
+export interface ReflectedStage {
+    reflection: ShaderReflection;
+    stage: ShaderStage;
+    entryPoint: string;
+}
+
+/**
+ * 合并各阶段使用的资源，生成每个 group 的 GPUBindGroupLayoutEntry（按 binding 排序）
+ * - 同一 group / binding 在多个阶段出现时合并 visibility，声明不一致时抛出
+ * - 入口函数未使用的资源不进入布局；中间缺失的 group 为空布局
+ * @param dynamicOffsets 使用动态偏移的缓冲区绑定（按变量名）
+ */
+export function createBindGroupLayoutEntries(
+    stages: readonly ReflectedStage[],
+    dynamicOffsets: readonly string[] = []
+): GPUBindGroupLayoutEntry[][] {
+    const merged = new Map<string, { binding: ShaderBinding; visibility: number }>();
+
+    for (const { reflection, stage, entryPoint } of stages) {
+        if (!reflection.entryPoints[stage].includes(entryPoint)) {
+            throw new Error(`Entry point '${entryPoint}' is not a ${stage} entry point`);
+        }
+        for (const binding of reflection.bindings.filter(b => b.entryPoints.includes(entryPoint))) {
+            const key = `${binding.group}:${binding.binding}`;
+            const existing = merged.get(key);
+            if (existing && !isSameResource(existing.binding, binding)) {
+                throw new Error(
+                    `Binding @group(${binding.group}) @binding(${binding.binding}) is declared differently across stages: ` +
+                    `'${existing.binding.name}: ${existing.binding.type}' vs '${binding.name}: ${binding.type}'`
+                );
+            }
+            merged.set(key, {
+                binding: existing?.binding ?? binding,
+                visibility: (existing?.visibility ?? 0) | getStageFlag(stage),
+            });
+        }
+    }
+
+    const groups: GPUBindGroupLayoutEntry[][] = [];
+    for (const { binding, visibility } of merged.values()) {
+        while (groups.length <= binding.group) {
+            groups.push([]);
+        }
+        const entry = toLayoutEntry(binding, visibility);
+        if (dynamicOffsets.includes(binding.name)) {
+            if (!entry.buffer) {
+                throw new Error(`Binding '${binding.name}' is not a buffer and cannot use a dynamic offset`);
+            }
+            entry.buffer.hasDynamicOffset = true;
+        }
+        groups[binding.group].push(entry);
+    }
+    for (const entries of groups) {
+        entries.sort((a, b) => a.binding - b.binding);
+    }
+    return groups;
+}
+
+const getStageFlag = lazyFlags((): Record<ShaderStage, GPUShaderStageFlags> => ({
+    vertex: GPUShaderStage.VERTEX,
+    fragment: GPUShaderStage.FRAGMENT,
+    compute: GPUShaderStage.COMPUTE,
+}));
+
+function isSameResource(a: ShaderBinding, b: ShaderBinding): boolean {
+    return a.kind === b.kind && a.type === b.type;
+}
+
+function toLayoutEntry(binding: ShaderBinding, visibility: number): GPUBindGroupLayoutEntry {
+    const entry: GPUBindGroupLayoutEntry = { binding: binding.binding, visibility };
+    switch (binding.kind) {
+        case 'uniform':
+        case 'storage':
+        case 'read-only-storage':
+            entry.buffer = { type: binding.kind, minBindingSize: binding.size ?? 0 };
+            break;
+        case 'sampler':
+            entry.sampler = { type: 'filtering' };
+            break;
+        case 'comparison-sampler':
+            entry.sampler = { type: 'comparison' };
+            break;
+        case 'texture':
+            entry.texture = {
+                sampleType: binding.sampleType,
+                viewDimension: binding.viewDimension,
+                multisampled: binding.multisampled,
+            };
+            break;
+        case 'storage-texture':
+            entry.storageTexture = {
+                access: binding.access,
+                format: binding.format!,
+                viewDimension: binding.viewDimension,
+            };
+            break;
+        case 'external-texture':
+            entry.externalTexture = {};
+            break;
+    }
+    return entry;
+}
+
+type ResourceDescription = Omit<ShaderBinding, 'group' | 'binding' | 'name' | 'entryPoints'>;
+
+const VIEW_DIMENSIONS: Record<string, GPUTextureViewDimension> = {
+    '1d': '1d',
+    '2d': '2d',
+    '2d_array': '2d-array',
+    '3d': '3d',
+    'cube': 'cube',
+    'cube_array': 'cube-array',
+};
+
+const SAMPLE_TYPES: Record<string, GPUTextureSampleType> = { f32: 'float', i32: 'sint', u32: 'uint' };
+
+const STORAGE_ACCESS: Record<string, GPUStorageTextureAccess> = {
+    read: 'read-only',
+    write: 'write-only',
+    read_write: 'read-write',
+};
+
+// 由地址空间与类型判断资源类别
+function describeResource(
+    addressSpace: string | undefined,
+    type: string,
+    structs: Record<string, ShaderStruct>
+): ResourceDescription {
+    const space = addressSpace?.replace(/\s+/g, '').split(',') ?? [];
+    if (space[0] === 'uniform') {
+        return { kind: 'uniform', type, size: getTypeLayout(type, structs).size };
+    }
+    if (space[0] === 'storage') {
+        const kind = space[1] === 'read_write' ? 'storage' : 'read-only-storage';
+        return { kind, type, size: getTypeLayout(type, structs).size };
+    }
+
+    if (type === 'sampler') {
+        return { kind: 'sampler', type };
+    }
+    if (type === 'sampler_comparison') {
+        return { kind: 'comparison-sampler', type };
+    }
+    if (type === 'texture_external') {
+        return { kind: 'external-texture', type };
+    }
+
+    const storage = /^texture_storage_(\w+?)<(\w+),(\w+)>$/.exec(type);
+    if (storage) {
+        return {
+            kind: 'storage-texture',
+            type,
+            viewDimension: VIEW_DIMENSIONS[storage[1]],
+            format: storage[2] as GPUTextureFormat,
+            access: STORAGE_ACCESS[storage[3]],
+        };
+    }
+
+    const depth = /^texture_depth_(multisampled_)?(\w+)$/.exec(type);
+    if (depth) {
+        return {
+            kind: 'texture',
+            type,
+            sampleType: 'depth',
+            viewDimension: VIEW_DIMENSIONS[depth[2]],
+            multisampled: depth[1] !== undefined,
+        };
+    }
+
+    const texture = /^texture_(multisampled_)?(\w+?)<(\w+)>$/.exec(type);
+    if (texture) {
+        return {
+            kind: 'texture',
+            type,
+            sampleType: SAMPLE_TYPES[texture[3]],
+            viewDimension: VIEW_DIMENSIONS[texture[2]],
+            multisampled: texture[1] !== undefined,
+        };
+    }
+
+    throw new Error(`Unsupported resource binding type: ${type}`);
+}
+
+const SCALAR_SIZE: Record<string, number> = { f32: 4, i32: 4, u32: 4, f16: 2 };
+
+function roundUp(value: number, align: number): number {
+    return Math.ceil(value / align) * align;
+}
+
+function parseAttributes(text: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    for (const match of text.matchAll(ATTRIBUTE)) {
+        attributes.set(match[1], match[2] ?? '');
+    }
+    return attributes;
+}
+
+// 按顶层逗号拆分（忽略 <>、() 内的逗号）
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+        if (char === '<' || char === '(') {
+            depth++;
+        } else if (char === '>' || char === ')') {
+            depth--;
+        }
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+// "@location(0) name: type" → 属性、名称、类型
+function parseDeclaration(text: string): { attributes: Map<string, string>; name: string; type: string } | null {
+    const prefix = ATTRIBUTES.exec(text)!;
+    const rest = text.substring(prefix[0].length);
+    const colon = rest.indexOf(':');
+    if (colon < 0) {
+        return null;
+    }
+    return {
+        attributes: parseAttributes(prefix[1]),
+        name: rest.substring(0, colon).trim(),
+        type: normalizeType(rest.substring(colon + 1)),
+    };
+}
+
+// 从 start（指向开括号）开始找到配对的闭括号
+function findClosing(source: string, start: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = start; i < source.length; i++) {
+        if (source[i] === open) {
+            depth++;
+        } else if (source[i] === close && --depth === 0) {
+            return i;
+        }
+    }
+    return source.length;
+}
+
+// WGSL 中结构体可以先使用后声明：先收集全部声明，再按需递归计算布局
+function parseStructs(source: string): Record<string, ShaderStruct> {
+    const declarations = new Map<string, ReturnType<typeof parseDeclaration>[]>();
+    for (const match of source.matchAll(STRUCT)) {
+        const open = match.index! + match[0].length - 1;
+        const body = source.substring(open + 1, findClosing(source, open, '{', '}'));
+        declarations.set(match[1], splitTopLevel(body).map(parseDeclaration));
+    }
+
+    const structs: Record<string, ShaderStruct> = {};
+    const build = (name: string): void => {
+        if (structs[name]) {
+            return;
+        }
+        const members: ShaderStructMember[] = [];
+        let offset = 0;
+        let align = 1;
+        for (const declaration of declarations.get(name)!) {
+            if (!declaration) {
+                continue;
+            }
+            // 依赖的结构体先计算
+            for (const dependency of declaration.type.match(/[A-Za-z_]\w*/g) ?? []) {
+                if (declarations.has(dependency) && dependency !== name) {
+                    build(dependency);
+                }
+            }
+            // 非 host-shareable 的类型（如 bool）不计算布局
+            let layout: { size: number; align: number };
+            try {
+                layout = getTypeLayout(declaration.type, structs);
+            } catch {
+                layout = { size: 0, align: 1 };
+            }
+            const memberAlign = Number(declaration.attributes.get('align') ?? layout.align);
+            const memberSize = Number(declaration.attributes.get('size') ?? layout.size);
+            offset = roundUp(offset, memberAlign);
+            const location = declaration.attributes.get('location');
+            members.push({
+                name: declaration.name,
+                type: declaration.type,
+                offset,
+                size: memberSize,
+                location: location !== undefined ? parseInt(location, 10) : undefined,
+            });
+            offset += memberSize;
+            align = Math.max(align, memberAlign);
+        }
+        structs[name] = { name, members, size: roundUp(offset, align), align };
+    };
+
+    for (const name of declarations.keys()) {
+        build(name);
+    }
+    return structs;
+}
+
+interface ParsedFunction {
+    params: string;
+    body: string;
+}
+
+function parseFunctions(source: string): Map<string, ParsedFunction> {
+    const functions = new Map<string, ParsedFunction>();
+    for (const match of source.matchAll(FUNCTION)) {
+        const paramsOpen = match.index! + match[0].length - 1;
+        const paramsClose = findClosing(source, paramsOpen, '(', ')');
+        const bodyOpen = source.indexOf('{', paramsClose);
+        if (bodyOpen < 0) {
+            continue;
+        }
+        functions.set(match[1], {
+            params: source.substring(paramsOpen + 1, paramsClose),
+            body: source.substring(bodyOpen, findClosing(source, bodyOpen, '{', '}') + 1),
+        });
+    }
+    return functions;
+}
+
+// 入口函数及其（间接）调用的所有函数体
+function collectReachable(entry: string, functions: Map<string, ParsedFunction>): string[] {
+    const visited = new Set<string>();
+    const pending = [entry];
+    const bodies: string[] = [];
+    while (pending.length > 0) {
+        const name = pending.pop()!;
+        const fn = functions.get(name);
+        if (visited.has(name) || !fn) {
+            continue;
+        }
+        visited.add(name);
+        bodies.push(fn.body);
+        for (const call of fn.body.matchAll(/\b([A-Za-z_]\w*)\s*\(/g)) {
+            pending.push(call[1]);
+        }
+    }
+    return bodies;
+}
+
+function parseVertexInputs(params: string, structs: Record<string, ShaderStruct>): ShaderVertexInput[] {
+    const inputs: ShaderVertexInput[] = [];
+    for (const param of splitTopLevel(params)) {
+        const declaration = parseDeclaration(param);
+        if (!declaration) {
+            continue;
+        }
+        const location = declaration.attributes.get('location');
+        if (location !== undefined) {
+            inputs.push({ location: parseInt(location, 10), name: declaration.name, type: declaration.type });
+            continue;
+        }
+        // 结构体参数：取带 @location 的成员（@builtin 成员忽略）
+        for (const member of structs[declaration.type]?.members ?? []) {
+            if (member.location !== undefined) {
+                inputs.push({ location: member.location, name: member.name, type: member.type });
+            }
+        }
+    }
+    return inputs.sort((a, b) => a.location - b.location);
+}
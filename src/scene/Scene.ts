@@ -1,9 +1,16 @@
 import { ICamera } from "@/core/types/ICamera"
-import { Renderable } from "./Renderable"
+import { Renderable } from "@/rendering/Renderable"
+import { IAsset } from "@/assets/asset_types/IAsset"
+import { ModelAsset } from "@/assets/asset_types/ModelAsset"
+import { AssetState } from "@/assets/AssetEnums"
+import { mat4 } from "gl-matrix"
 
 export abstract class Scene {
     protected _cameras: Set<ICamera> = new Set()
     protected _renderables: Set<Renderable> = new Set()
+    protected _assets: Set<IAsset> = new Set()
+    // Scene 被移除时取消其尚未完成的 Asset 加载
+    private _loadController = new AbortController()
 
     /** 由 SceneManager / Engine 注入 */
     onAttach(): void { }
@@ -13,8 +20,11 @@ export abstract class Scene {
 
     /** Scene 销毁 */
     onDetach(): void {
+        this._loadController.abort()
+        this._loadController = new AbortController()
         this._cameras.clear()
         this._renderables.clear()
+        this._assets.clear()
     }
 
     /** Camera 对 Scene 只读暴露 */
@@ -27,6 +37,16 @@ export abstract class Scene {
         return [...this._renderables]
     }
 
+    /** Scene 声明需要的 Asset（由 Engine.prepare 统一加载） */
+    get assets(): readonly IAsset[] {
+        return [...this._assets]
+    }
+
+    /** Asset 加载的取消信号（Scene 移除时触发） */
+    get loadSignal(): AbortSignal {
+        return this._loadController.signal
+    }
+
     /** 受控地添加 Camera */
     protected addCamera(camera: ICamera): void {
         if (camera.scene !== this) {
@@ -47,4 +67,53 @@ export abstract class Scene {
     protected removeRenderable(renderable: Renderable): void {
         this._renderables.delete(renderable)
     }
+
+    /** 声明 Scene 需要的 Asset */
+    protected requireAsset(asset: IAsset): void {
+        this._assets.add(asset)
+    }
+
+    /**
+     * 将 Ready 的 ModelAsset 实例化为 Renderable
+     * - 按节点层级计算世界变换，每个带 Mesh 的节点生成一个 Renderable
+     * - Renderable 只持有 MeshHandle，不接触 GPU 资源
+     * @param root 所有节点共同的父变换
+     */
+    protected instantiateModel(model: ModelAsset, root: mat4 = mat4.create()): Renderable[] {
+        const data = model.getCPUData()
+        if (model.state !== AssetState.Ready || !data) {
+            throw new Error(`Model is not ready: ${model.id}`)
+        }
+
+        this.requireAsset(model)
+        const created: Renderable[] = []
+
+        const visit = (index: number, parent: mat4, path: Set<number>) => {
+            const node = data.nodes[index]
+            if (!node || path.has(index)) {
+                return
+            }
+            const world = mat4.multiply(mat4.create(), parent, node.matrix)
+
+            if (node.mesh) {
+                // 子网格的材质来自导入器（MTL / glTF）
+                const materials = node.mesh.getCPUData()?.subMeshes.map(subMesh => subMesh.material) ?? []
+                const renderable = new Renderable(node.mesh.handle, node.mesh, materials)
+                renderable.setBaseTransform(world)
+                this.addRenderable(renderable)
+                created.push(renderable)
+            }
+
+            path.add(index)
+            for (const child of node.children) {
+                visit(child, world, path)
+            }
+            path.delete(index)
+        }
+
+        for (const index of data.roots) {
+            visit(index, root, new Set())
+        }
+        return created
+    }
 }
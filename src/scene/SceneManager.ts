@@ -15,6 +15,10 @@ export class SceneManager {
         this.scenes.delete(scene)
     }
 
+    getScenes(): readonly Scene[] {
+        return [...this.scenes]
+    }
+
     update(deltaTime: number) {
         for (const scene of this.scenes) {
             scene.update(deltaTime)
@@ -30,7 +34,30 @@ export class SceneManager {
 
     collectAssets(): Set<IAsset> {
         let assets = new Set<IAsset>()
-        // TODO: 递归收集所有场景中的资产
+        for (const scene of this.scenes) {
+            for (const asset of scene.assets) {
+                assets.add(asset)
+            }
+        }
+        return assets
+    }
+
+    /**
+     * 当前可见的 Asset（有启用 Camera 的 Scene 中 Renderable 引用的 Asset）
+     * - AssetManager 据此优先上传
+     */
+    collectVisibleAssets(): Set<IAsset> {
+        let assets = new Set<IAsset>()
+        for (const scene of this.scenes) {
+            if (!scene.cameras.some(camera => camera.enabled)) {
+                continue
+            }
+            for (const renderable of scene.renderables) {
+                if (renderable.asset) {
+                    assets.add(renderable.asset)
+                }
+            }
+        }
         return assets
     }
 }
@@ -1,9 +1,22 @@
-struct VertexOutput {
-    @builtin(position) position: vec4<f32>,
-    @location(0) color: vec4<f32>,
+#include "common.wgsl"
+
+struct MaterialParams {
+    baseColorFactor: vec4<f32>,
+    emissiveFactor: vec3<f32>,
+    alphaCutoff: f32,
 }
 
+@group(1) @binding(0) var<uniform> material: MaterialParams;
+@group(1) @binding(1) var baseColorTexture: texture_2d<f32>;
+@group(1) @binding(2) var baseColorSampler: sampler;
+
 @fragment
 fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
-    return input.color;
+    let baseColor = material.baseColorFactor * textureSample(baseColorTexture, baseColorSampler, input.uv) * input.color;
+#ifdef ALPHA_MASK
+    if (baseColor.a < material.alphaCutoff) {
+        discard;
+    }
+#endif
+    return vec4<f32>(baseColor.rgb + material.emissiveFactor, baseColor.a);
 }
\ No newline at end of file
@@ -1,18 +1,15 @@
-struct Uniforms {
-    model: mat4x4<f32>,
-    view: mat4x4<f32>,
-    projection: mat4x4<f32>,
-}
+#include "common.wgsl"
+
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 
 struct VertexInput {
     @location(0) position: vec3<f32>,
+#ifdef HAS_VERTEX_COLOR
     @location(1) color: vec4<f32>,
-}
-
-struct VertexOutput {
-    @builtin(position) position: vec4<f32>,
-    @location(0) color: vec4<f32>,
+#endif
+#ifdef HAS_UV
+    @location(2) uv: vec2<f32>,
+#endif
 }
 
 @vertex
@@ -20,6 +17,15 @@ fn vs_main(input: VertexInput) -> VertexOutput {
     var output: VertexOutput;
     let mvp = uniforms.projection * uniforms.view * uniforms.model;
     output.position = mvp * vec4<f32>(input.position, 1.0);
+#ifdef HAS_VERTEX_COLOR
     output.color = input.color;
+#else
+    output.color = vec4<f32>(1.0, 1.0, 1.0, 1.0);
+#endif
+#ifdef HAS_UV
+    output.uv = input.uv;
+#else
+    output.uv = vec2<f32>(0.0, 0.0);
+#endif
     return output;
-}
\ No newline at end of file
+}
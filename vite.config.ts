@@ -1,10 +1,29 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import vue from '@vitejs/plugin-vue'
-import { resolve } from 'path'
+import { relative, resolve } from 'path'
+
+// .wgsl 修改时推送新源码（src/assets/io/ViteFileChangeSource.ts），代替整页刷新
+function wgslHotReload(): Plugin {
+  return {
+    name: 'wgsl-hot-reload',
+    async handleHotUpdate({ file, server, read }) {
+      if (!file.endsWith('.wgsl')) {
+        return
+      }
+      const path = '/' + relative(server.config.root, file).replace(/\\/g, '/')
+      server.ws.send({
+        type: 'custom',
+        event: 'wgsl-update',
+        data: { path, source: await read() }
+      })
+      return []
+    }
+  }
+}
 
 export default defineConfig({
   assetsInclude: ['**/*.wgsl'], // 将 WGSL 视为资源文件
-  plugins: [vue()],
+  plugins: [vue(), wgslHotReload()],
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src')
@@ -14,4 +33,4 @@ export default defineConfig({
     port: 8080,
     open: true
   }
-})
\ No newline at end of file
+})